@@ -1,11 +1,16 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
+import fastGlob from 'fast-glob';
 import type * as tsdoc from '@microsoft/tsdoc';
 
 import {
 	CommandLineAction,
+	type CommandLineFlagParameter,
+	type CommandLineStringListParameter,
 	type CommandLineStringParameter,
 	type ICommandLineActionOptions,
 } from '@rushstack/ts-command-line';
@@ -15,31 +20,52 @@ import {
 	type ApiItem,
 	ApiItemContainerMixin,
 	ApiModel,
+	ApiPackage,
 	type IResolveDeclarationReferenceResult,
 } from '@microsoft/api-extractor-model';
 import { Colorize } from '@rushstack/terminal';
 
+import type { DocumenterConfig } from '../documenters/DocumenterConfig.js';
+import { OutputChecker } from '../utils/OutputChecker.js';
+
 export interface IBuildApiModelResult {
 	apiModel: ApiModel;
+	/**
+	 * The first input folder.  Use `inputFolders` for the full list.
+	 */
 	inputFolder: string;
+	/**
+	 * Every folder that *.api.json files were read from.
+	 */
+	inputFolders: string[];
 	outputFolder: string;
 }
 
+/**
+ * How long to wait after the last change to an input file before regenerating, in milliseconds.  API Extractor
+ * usually writes several files in quick succession.
+ */
+const WATCH_DEBOUNCE_MS: number = 300;
+
 export abstract class BaseAction extends CommandLineAction {
-	private readonly _inputFolderParameter: CommandLineStringParameter;
+	private readonly _inputFolderParameter: CommandLineStringListParameter;
 	private readonly _outputFolderParameter: CommandLineStringParameter;
+	private _watchParameter: CommandLineFlagParameter | undefined;
+	private _checkParameter: CommandLineFlagParameter | undefined;
 
 	protected constructor(options: ICommandLineActionOptions) {
 		super(options);
 
 		// override
-		this._inputFolderParameter = this.defineStringParameter({
+		this._inputFolderParameter = this.defineStringListParameter({
 			parameterLongName: '--input-folder',
 			parameterShortName: '-i',
 			argumentName: 'FOLDER1',
 			description:
 				'Specifies the input folder containing the *.api.json files to be processed.' +
-				' If omitted, the default is "./input"',
+				' This parameter may be repeated, and glob patterns such as "packages/*/temp" are supported.' +
+				' A pattern may also match *.api.json files directly.' +
+				' If omitted, the "inputs" config setting is used if there is one, otherwise the default is "./input"',
 		});
 
 		this._outputFolderParameter = this.defineStringParameter({
@@ -48,33 +74,198 @@ export abstract class BaseAction extends CommandLineAction {
 			argumentName: 'FOLDER2',
 			description:
 				'Specifies the output folder where the documentation will be written.' +
-				' ANY EXISTING CONTENTS WILL BE DELETED!' +
+				(this.actionName === 'hugo'
+					? ' Files generated by a previous run that are no longer needed will be deleted; other files are kept.'
+					: ' ANY EXISTING CONTENTS WILL BE DELETED!') +
 				` If omitted, the default is "./${this.actionName}"`,
 		});
 	}
 
-	protected buildApiModel(): IBuildApiModelResult {
+	/**
+	 * Defines the `--watch` parameter for actions that support regenerating their output when the input changes.
+	 * Actions that call this should generate their output using {@link BaseAction.runDocumenter}.
+	 */
+	protected defineWatchParameter(): void {
+		this._watchParameter = this.defineFlagParameter({
+			parameterLongName: '--watch',
+			parameterShortName: '-w',
+			description:
+				'After generating the documentation, keep watching the *.api.json files in the input folder' +
+				' and regenerate the documentation whenever they change. The folders to watch and the config file' +
+				' are read once at startup, so restart to pick up a new folder matching a glob pattern or a' +
+				' changed api-documenter.json. Press Ctrl+C to stop.',
+		});
+	}
+
+	/**
+	 * Defines the `--check` parameter for actions that support comparing their output with the output folder.
+	 * Actions that call this should generate their output using {@link BaseAction.runDocumenter}, and pass the
+	 * `OutputChecker` they are given to their documenter.
+	 */
+	protected defineCheckParameter(): void {
+		this._checkParameter = this.defineFlagParameter({
+			parameterLongName: '--check',
+			description:
+				'Instead of writing the documentation, compare it with the contents of the output folder.' +
+				' A diff is printed for every file that is out of date, and the command fails if there are any.' +
+				' This is useful in CI to detect documentation that was not regenerated after the API changed.',
+		});
+	}
+
+	/**
+	 * Builds the API model and generates the output.  If `--watch` was specified, this then rebuilds the model
+	 * and regenerates the output every time an *.api.json file in the input folder changes, until the process
+	 * is interrupted.  If `--check` was specified, `generate` is given an `OutputChecker` to use instead of writing
+	 * files, and this throws if anything is out of date.
+	 */
+	protected async runDocumenter(
+		documenterConfig: DocumenterConfig | undefined,
+		generate: (result: IBuildApiModelResult, outputChecker: OutputChecker | undefined) => void,
+	): Promise<void> {
+		if (this._checkParameter?.value) {
+			if (this._watchParameter?.value) {
+				throw new Error('The --check and --watch parameters cannot be used together');
+			}
+
+			const result: IBuildApiModelResult = this.buildApiModel(documenterConfig);
+			const outputChecker: OutputChecker = new OutputChecker(result.outputFolder);
+			generate(result, outputChecker);
+
+			const outdatedCount: number = outputChecker.outdatedFiles.length;
+			if (outdatedCount > 0) {
+				throw new Error(
+					`${outdatedCount} file${outdatedCount === 1 ? ' is' : 's are'} out of date in ${result.outputFolder}.` +
+						' Run this command again without --check to update them.',
+				);
+			}
+
+			console.log(Colorize.green(`${os.EOL}The documentation in ${result.outputFolder} is up to date`));
+			return;
+		}
+
+		const result: IBuildApiModelResult = this.buildApiModel(documenterConfig);
+		generate(result, undefined);
+
+		if (!this._watchParameter?.value) {
+			return;
+		}
+
+		await new Promise<void>((resolve) => {
+			let timeout: NodeJS.Timeout | undefined;
+
+			const regenerate = (): void => {
+				timeout = undefined;
+				console.log(Colorize.cyan(`${os.EOL}Input changed, regenerating documentation`));
+				try {
+					generate(this.buildApiModel(documenterConfig), undefined);
+				} catch (e) {
+					// Keep watching so that the next change can fix the problem
+					console.error(Colorize.red(`Error: ${(e as Error).message}`));
+				}
+				console.log(Colorize.cyan(`Watching ${watchedFolders} for changes`));
+			};
+
+			// Only the folders found at startup are watched, and the config file isn't reloaded
+			const watchers: fs.FSWatcher[] = result.inputFolders.map((inputFolder) =>
+				fs.watch(inputFolder, (eventType, filename) => {
+					if (filename && /\.api\.json$/i.test(filename.toString())) {
+						clearTimeout(timeout);
+						timeout = setTimeout(regenerate, WATCH_DEBOUNCE_MS);
+					}
+				}),
+			);
+			const watchedFolders: string = result.inputFolders.join(', ');
+
+			process.once('SIGINT', () => {
+				clearTimeout(timeout);
+				for (const watcher of watchers) {
+					watcher.close();
+				}
+				resolve();
+			});
+
+			console.log(Colorize.cyan(`${os.EOL}Watching ${watchedFolders} for changes`));
+		});
+	}
+
+	/**
+	 * Loads every *.api.json file from the input folders into a new `ApiModel`.
+	 *
+	 * @remarks
+	 * The inputs come from the `--input-folder` parameter, or failing that the `inputs` config setting.  Each input
+	 * is either a folder or a glob pattern that matches folders or *.api.json files.
+	 */
+	protected buildApiModel(documenterConfig?: DocumenterConfig): IBuildApiModelResult {
 		const apiModel: ApiModel = new ApiModel();
 
-		const inputFolder: string = this._inputFolderParameter.value || './input';
-		if (!FileSystem.exists(inputFolder)) {
-			throw new Error(`The input folder does not exist: ${inputFolder}`);
+		let inputs: ReadonlyArray<string> = this._inputFolderParameter.values;
+		if (inputs.length === 0) {
+			inputs = documenterConfig?.configFile.inputs ?? ['./input'];
 		}
 
 		const outputFolder: string = this._outputFolderParameter.value || `./${this.actionName}`;
-		FileSystem.ensureFolder(outputFolder);
+		if (!this._checkParameter?.value) {
+			FileSystem.ensureFolder(outputFolder);
+		}
 
-		for (const filename of FileSystem.readFolderItemNames(inputFolder)) {
-			if (filename.match(/\.api\.json$/i)) {
-				console.log(`Reading ${filename}`);
-				const filenamePath: string = path.join(inputFolder, filename);
-				apiModel.loadPackage(filenamePath);
+		const inputFolders: Set<string> = new Set();
+		const apiJsonFilePaths: Set<string> = new Set();
+		for (const input of inputs) {
+			for (const inputPath of this._expandInput(input)) {
+				if (FileSystem.getStatistics(inputPath).isDirectory()) {
+					inputFolders.add(inputPath);
+					for (const filename of FileSystem.readFolderItemNames(inputPath)) {
+						if (filename.match(/\.api\.json$/i)) {
+							apiJsonFilePaths.add(path.join(inputPath, filename));
+						}
+					}
+				} else if (inputPath.match(/\.api\.json$/i)) {
+					inputFolders.add(path.dirname(inputPath));
+					apiJsonFilePaths.add(inputPath);
+				}
 			}
 		}
 
+		// Keep track of where each package came from so that duplicates can be reported clearly
+		const packageFilePaths: Map<string, string> = new Map();
+		for (const filenamePath of apiJsonFilePaths) {
+			console.log(`Reading ${filenamePath}`);
+			const apiPackage: ApiPackage = ApiPackage.loadFromJsonFile(filenamePath);
+
+			const existingFilePath: string | undefined = packageFilePaths.get(apiPackage.name);
+			if (existingFilePath !== undefined) {
+				throw new Error(
+					`The package "${apiPackage.name}" was found in both ${existingFilePath} and ${filenamePath}.` +
+						' Each package can only be loaded once; check that your input folders do not overlap.',
+				);
+			}
+			packageFilePaths.set(apiPackage.name, filenamePath);
+
+			apiModel.addMember(apiPackage);
+		}
+
 		this._applyInheritDoc(apiModel, apiModel);
 
-		return { apiModel, inputFolder, outputFolder };
+		return { apiModel, inputFolder: [...inputFolders][0], inputFolders: [...inputFolders], outputFolder };
+	}
+
+	/**
+	 * Resolves an input folder or glob pattern to the paths that it refers to.
+	 */
+	private _expandInput(input: string): string[] {
+		if (FileSystem.exists(input)) {
+			return [path.normalize(input)];
+		}
+
+		if (!fastGlob.isDynamicPattern(input)) {
+			throw new Error(`The input folder does not exist: ${input}`);
+		}
+
+		const matches: string[] = fastGlob.sync(input, { onlyFiles: false }).map((x) => path.normalize(x));
+		if (matches.length === 0) {
+			throw new Error(`The input pattern did not match any folders or files: ${input}`);
+		}
+		return matches.sort();
 	}
 
 	// TODO: This is a temporary workaround.  The long term plan is for API Extractor's DocCommentEnhancer
@@ -1,14 +1,11 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
-import * as path from 'path';
-
 import type { ApiDocumenterCommandLine } from './ApiDocumenterCommandLine.js';
 import { BaseAction } from './BaseAction.js';
 import { DocumenterConfig } from '../documenters/DocumenterConfig.js';
 import { ExperimentalYamlDocumenter } from '../documenters/ExperimentalYamlDocumenter.js';
-
-import { FileSystem } from '@rushstack/node-core-library';
+import { HugoDocumenter } from '../documenters/HugoDocumenter.js';
 import { MarkdownDocumenter } from '../documenters/MarkdownDocumenter.js';
 
 export class GenerateAction extends BaseAction {
@@ -25,21 +22,14 @@ export class GenerateAction extends BaseAction {
 	protected async onExecute(): Promise<void> {
 		// override
 		// Look for the config file under the current folder
-
-		let configFilePath: string = path.join(process.cwd(), DocumenterConfig.FILENAME);
-
-		// First try the current folder
-		if (!FileSystem.exists(configFilePath)) {
-			// Otherwise try the standard "config" subfolder
-			configFilePath = path.join(process.cwd(), 'config', DocumenterConfig.FILENAME);
-			if (!FileSystem.exists(configFilePath)) {
-				throw new Error(`Unable to find ${DocumenterConfig.FILENAME} in the current folder or in a "config" subfolder`);
-			}
+		const configFilePath: string | undefined = DocumenterConfig.findConfigFile(process.cwd());
+		if (!configFilePath) {
+			throw new Error(`Unable to find ${DocumenterConfig.FILENAME} in the current folder or in a "config" subfolder`);
 		}
 
 		const documenterConfig: DocumenterConfig = DocumenterConfig.loadFile(configFilePath);
 
-		const { apiModel, outputFolder } = this.buildApiModel();
+		const { apiModel, outputFolder } = this.buildApiModel(documenterConfig);
 
 		if (documenterConfig.configFile.outputTarget === 'markdown') {
 			const markdownDocumenter: MarkdownDocumenter = new MarkdownDocumenter({
@@ -48,6 +38,13 @@ export class GenerateAction extends BaseAction {
 				outputFolder,
 			});
 			markdownDocumenter.generateFiles();
+		} else if (documenterConfig.configFile.outputTarget === 'hugo') {
+			const hugoDocumenter: HugoDocumenter = new HugoDocumenter({
+				apiModel,
+				documenterConfig,
+				outputFolder,
+			});
+			hugoDocumenter.generateFiles();
 		} else {
 			const yamlDocumenter: ExperimentalYamlDocumenter = new ExperimentalYamlDocumenter(apiModel, documenterConfig);
 			yamlDocumenter.generateFiles(outputFolder);
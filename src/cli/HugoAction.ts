@@ -1,11 +1,23 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
+import type { CommandLineChoiceParameter, CommandLineStringParameter } from '@rushstack/ts-command-line';
+import { FileSystem } from '@rushstack/node-core-library';
+
 import type { ApiDocumenterCommandLine } from './ApiDocumenterCommandLine.js';
 import { BaseAction } from './BaseAction.js';
-import { HugoDocumenter } from '../documenters/HugoDocumenter.js';
+import { DocumenterConfig } from '../documenters/DocumenterConfig.js';
+import { HugoDocumenter, type HugoPageLayout, type HugoReleaseTagName } from '../documenters/HugoDocumenter.js';
 
 export class HugoAction extends BaseAction {
+	private readonly _configParameter: CommandLineStringParameter;
+	private readonly _baseUrlParameter: CommandLineStringParameter;
+	private readonly _pageLayoutParameter: CommandLineChoiceParameter<HugoPageLayout>;
+	private readonly _versionParameter: CommandLineStringParameter;
+	private readonly _languageParameter: CommandLineStringParameter;
+	private readonly _sourceRefParameter: CommandLineStringParameter;
+	private readonly _minReleaseTagParameter: CommandLineChoiceParameter<HugoReleaseTagName>;
+
 	public constructor(parser: ApiDocumenterCommandLine) {
 		super({
 			actionName: 'hugo',
@@ -14,17 +26,110 @@ export class HugoAction extends BaseAction {
 				'Generates API documentation as a collection of files in' +
 				' Markdown format, suitable for example for publishing using the hugo static site generator.',
 		});
+
+		this._configParameter = this.defineStringParameter({
+			parameterLongName: '--config',
+			parameterShortName: '-c',
+			argumentName: 'FILE',
+			description:
+				`Specifies the path to an ${DocumenterConfig.FILENAME} config file.` +
+				' If omitted, the current folder and then a "config" subfolder are searched for one.' +
+				' The config file is optional for this action.',
+		});
+
+		this._baseUrlParameter = this.defineStringParameter({
+			parameterLongName: '--base-url',
+			argumentName: 'PATH',
+			description:
+				'Specifies the path inside the Hugo content folder where the output folder is mounted, which is used' +
+				' as the prefix for every generated link. This overrides the "hugo.baseUrl" config setting.' +
+				' If omitted, the default is "/docs"',
+		});
+
+		this._pageLayoutParameter = this.defineChoiceParameter<HugoPageLayout>({
+			parameterLongName: '--page-layout',
+			alternatives: ['branch', 'leaf', 'bundle'],
+			description:
+				'Specifies how pages for members, functions, variables, type aliases and enums are written:' +
+				' "branch" as <name>/_index.md, "leaf" as <name>.md, or "bundle" as <name>/index.md.' +
+				' This overrides the "hugo.pageLayout" config setting. If omitted, the default is "branch"',
+		});
+
+		this._versionParameter = this.defineStringParameter({
+			parameterLongName: '--doc-version',
+			argumentName: 'LABEL',
+			description:
+				'Generates the documentation for a single version of the API, such as "v2" or "main".' +
+				' The output is written to a subfolder of the output folder named after the version, every link' +
+				' includes the version, and the version is added to the versions data file.' +
+				' This overrides the "hugo.version" config setting.',
+		});
+
+		this._languageParameter = this.defineStringParameter({
+			parameterLongName: '--language',
+			argumentName: 'CODE',
+			description:
+				'Generates the documentation for a language other than the default content language, such as "ja".' +
+				' The strings configured for the language are used, and the pages are stored as described by the' +
+				' "hugo.languageLayout" config setting. This overrides the "hugo.language" config setting.',
+		});
+
+		this._sourceRefParameter = this.defineStringParameter({
+			parameterLongName: '--source-ref',
+			argumentName: 'REF',
+			description:
+				'The branch, tag or commit used for the {ref} placeholder of the "hugo.sourceUrlTemplate" config setting,' +
+				' for example the commit being built. This overrides the "hugo.sourceRef" config setting.',
+		});
+
+		this._minReleaseTagParameter = this.defineChoiceParameter<HugoReleaseTagName>({
+			parameterLongName: '--min-release-tag',
+			alternatives: ['internal', 'alpha', 'beta', 'public'],
+			description:
+				'Documents only the items with at least this release tag. Other items get no page, are left out of' +
+				' every table, and references to them are written as plain text.' +
+				' This overrides the "hugo.minReleaseTag" config setting. If omitted, every item is documented.',
+		});
+
+		this.defineWatchParameter();
+		this.defineCheckParameter();
 	}
 
 	protected async onExecute(): Promise<void> {
 		// override
-		const { apiModel, outputFolder } = this.buildApiModel();
+		const documenterConfig: DocumenterConfig | undefined = this._loadDocumenterConfig();
 
-		const markdownDocumenter: HugoDocumenter = new HugoDocumenter({
-			apiModel,
-			documenterConfig: undefined,
-			outputFolder,
+		await this.runDocumenter(documenterConfig, ({ apiModel, outputFolder }, outputChecker) => {
+			const markdownDocumenter: HugoDocumenter = new HugoDocumenter({
+				apiModel,
+				documenterConfig,
+				outputFolder,
+				baseUrl: this._baseUrlParameter.value,
+				pageLayout: this._pageLayoutParameter.value,
+				version: this._versionParameter.value,
+				language: this._languageParameter.value,
+				sourceRef: this._sourceRefParameter.value,
+				minReleaseTag: this._minReleaseTagParameter.value,
+				outputChecker,
+			});
+			markdownDocumenter.generateFiles();
 		});
-		markdownDocumenter.generateFiles();
+	}
+
+	private _loadDocumenterConfig(): DocumenterConfig | undefined {
+		let configFilePath: string | undefined = this._configParameter.value;
+		if (configFilePath) {
+			if (!FileSystem.exists(configFilePath)) {
+				throw new Error(`The config file does not exist: ${configFilePath}`);
+			}
+		} else {
+			configFilePath = DocumenterConfig.findConfigFile(process.cwd());
+			if (!configFilePath) {
+				return undefined;
+			}
+		}
+
+		console.log(`Loading config from ${configFilePath}`);
+		return DocumenterConfig.loadFile(configFilePath);
 	}
 }
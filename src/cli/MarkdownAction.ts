@@ -14,17 +14,21 @@ export class MarkdownAction extends BaseAction {
 				'Generates API documentation as a collection of files in' +
 				' Markdown format, suitable for example for publishing on a GitHub site.',
 		});
+
+		this.defineWatchParameter();
+		this.defineCheckParameter();
 	}
 
 	protected async onExecute(): Promise<void> {
 		// override
-		const { apiModel, outputFolder } = this.buildApiModel();
-
-		const markdownDocumenter: MarkdownDocumenter = new MarkdownDocumenter({
-			apiModel,
-			documenterConfig: undefined,
-			outputFolder,
+		await this.runDocumenter(undefined, ({ apiModel, outputFolder }, outputChecker) => {
+			const markdownDocumenter: MarkdownDocumenter = new MarkdownDocumenter({
+				apiModel,
+				documenterConfig: undefined,
+				outputFolder,
+				outputChecker,
+			});
+			markdownDocumenter.generateFiles();
 		});
-		markdownDocumenter.generateFiles();
 	}
 }
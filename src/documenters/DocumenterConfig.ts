@@ -2,7 +2,7 @@
 // See LICENSE in the project root for license information.
 
 import * as path from 'path';
-import { JsonFile, JsonSchema, NewlineKind } from '@rushstack/node-core-library';
+import { FileSystem, JsonFile, JsonSchema, NewlineKind } from '@rushstack/node-core-library';
 import type { IConfigFile } from './IConfigFile.js';
 import apiDocumenterSchema from '../schemas/api-documenter.schema.json' with { type: 'json' };
 
@@ -56,4 +56,25 @@ export class DocumenterConfig {
 
 		return new DocumenterConfig(path.resolve(configFilePath), configFile);
 	}
+
+	/**
+	 * Look for an api-documenter.json file in the specified folder, or failing that in its "config" subfolder.
+	 *
+	 * @returns The path to the config file, or `undefined` if neither location contains one.
+	 */
+	public static findConfigFile(folderPath: string): string | undefined {
+		// First try the folder itself
+		let configFilePath: string = path.join(folderPath, DocumenterConfig.FILENAME);
+		if (FileSystem.exists(configFilePath)) {
+			return configFilePath;
+		}
+
+		// Otherwise try the standard "config" subfolder
+		configFilePath = path.join(folderPath, 'config', DocumenterConfig.FILENAME);
+		if (FileSystem.exists(configFilePath)) {
+			return configFilePath;
+		}
+
+		return undefined;
+	}
 }
@@ -1,14 +1,19 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
+import * as crypto from 'crypto';
 import * as path from 'path';
-import { FileSystem, NewlineKind, PackageName } from '@rushstack/node-core-library';
+import { FileSystem, JsonFile, NewlineKind, PackageName, Text } from '@rushstack/node-core-library';
+import { Colorize } from '@rushstack/terminal';
 import {
 	type DocBlock,
 	DocCodeSpan,
 	type DocComment,
+	type DocErrorText,
+	type DocEscapedText,
 	DocFencedCode,
 	DocLinkTag,
+	type DocNode,
 	type DocNodeContainer,
 	DocNodeKind,
 	DocParagraph,
@@ -17,6 +22,8 @@ import {
 	StandardTags,
 	StringBuilder,
 	type TSDocConfiguration,
+	type TSDocTagDefinition,
+	TSDocTagSyntaxKind,
 } from '@microsoft/tsdoc';
 import {
 	ApiAbstractMixin,
@@ -41,6 +48,7 @@ import {
 	ApiReturnTypeMixin,
 	ApiStaticMixin,
 	ApiTypeAlias,
+	ApiTypeParameterListMixin,
 	type Excerpt,
 	type ExcerptToken,
 	ExcerptTokenKind,
@@ -56,6 +64,7 @@ import { DocEmphasisSpan } from '../nodes/DocEmphasisSpan.js';
 import { DocTableRow } from '../nodes/DocTableRow.js';
 import { DocTableCell } from '../nodes/DocTableCell.js';
 import { DocNoteBox } from '../nodes/DocNoteBox.js';
+import { DocBadge } from '../nodes/DocBadge.js';
 import { Utilities } from '../utils/Utilities.js';
 import { HugoMarkdownEmitter } from '../markdown/HugoMarkdownEmitter.js';
 import { PluginLoader } from '../plugin/PluginLoader.js';
@@ -64,12 +73,151 @@ import {
 	MarkdownDocumenterFeatureContext,
 } from '../plugin/MarkdownDocumenterFeature.js';
 import type { DocumenterConfig } from './DocumenterConfig.js';
+import type { IConfigHugo, IConfigHugoBlockTag } from './IConfigFile.js';
+import { defaultHugoStrings, type IHugoStrings } from './HugoStrings.js';
 import { MarkdownDocumenterAccessor } from '../plugin/MarkdownDocumenterAccessor.js';
+import type { OutputChecker } from '../utils/OutputChecker.js';
+
+/**
+ * How pages are laid out in the Hugo content folder.
+ *
+ * @remarks
+ * - `branch` writes every page as `<name>/_index.md`.
+ * - `leaf` writes pages without child pages as `<name>.md`.
+ * - `bundle` writes pages without child pages as leaf bundles, `<name>/index.md`.
+ */
+export type HugoPageLayout = 'branch' | 'leaf' | 'bundle';
+
+/**
+ * How pages for a language other than the default are stored, following Hugo's multilingual conventions.
+ *
+ * @remarks
+ * - `suffix` adds the language to each filename, for example `_index.ja.md`.
+ * - `folder` writes the pages to a subfolder of the output folder named after the language, for use with a
+ *   separate content folder or module mount for each language.
+ */
+export type HugoLanguageLayout = 'suffix' | 'folder';
+
+/**
+ * A release tag without its "@", as used by the Hugo settings that depend on the release tag of an item.
+ */
+export type HugoReleaseTagName = 'internal' | 'alpha' | 'beta' | 'public';
+
+/**
+ * How a custom TSDoc block tag is rendered.
+ *
+ * @remarks
+ * - `section` writes the block under its own heading.
+ * - `noteBox` writes the block in a note box.
+ * - `frontMatter` copies the text of the block into a front matter field.
+ */
+export type HugoBlockTagRendering = 'section' | 'noteBox' | 'frontMatter';
+
+/**
+ * Where the section or note box for a custom TSDoc block tag is written on the page.
+ */
+export type HugoBlockTagPlacement = 'beforeSummary' | 'afterSummary' | 'afterRemarks' | 'end';
 
 export interface IMarkdownDocumenterOptions {
 	apiModel: ApiModel;
 	documenterConfig: DocumenterConfig | undefined;
 	outputFolder: string;
+
+	/**
+	 * Overrides the `hugo.baseUrl` config setting, usually from the command line.
+	 */
+	baseUrl?: string;
+
+	/**
+	 * Overrides the `hugo.pageLayout` config setting, usually from the command line.
+	 */
+	pageLayout?: HugoPageLayout;
+
+	/**
+	 * Overrides the `hugo.version` config setting, usually from the command line.
+	 */
+	version?: string;
+
+	/**
+	 * Overrides the `hugo.language` config setting, usually from the command line.
+	 */
+	language?: string;
+
+	/**
+	 * Overrides the `hugo.sourceRef` config setting, usually from the command line.
+	 */
+	sourceRef?: string;
+
+	/**
+	 * Overrides the `hugo.minReleaseTag` config setting, usually from the command line.
+	 */
+	minReleaseTag?: HugoReleaseTagName;
+
+	/**
+	 * If provided, files are compared with the output folder using this checker instead of being written.
+	 */
+	outputChecker?: OutputChecker;
+}
+
+/**
+ * The list of files generated by the previous run, stored in the output folder.
+ */
+interface IHugoOutputManifest {
+	/**
+	 * Paths relative to the output folder, using forward slashes.
+	 */
+	files: string[];
+}
+
+/**
+ * Counts of what happened to each page during a run, reported once the run is complete.
+ */
+interface IHugoWriteSummary {
+	added: number;
+	changed: number;
+	unchanged: number;
+	removed: number;
+}
+
+/**
+ * The format of the versions data file, which a theme can use to build a version switcher.
+ */
+interface IHugoVersionsDataFile {
+	versions: IHugoVersionsDataFileEntry[];
+}
+
+interface IHugoVersionsDataFileEntry {
+	/**
+	 * The version label, as specified in the config file or on the command line.
+	 */
+	version: string;
+
+	/**
+	 * The content path of the version's API reference, including the base URL.
+	 */
+	path: string;
+}
+
+/**
+ * A {@link IConfigHugoBlockTag} with its defaults applied.
+ */
+interface IHugoBlockTagRule {
+	/**
+	 * The tag name, including the "@".
+	 */
+	tagName: string;
+	renderAs: HugoBlockTagRendering;
+	heading: string;
+	placement: HugoBlockTagPlacement;
+	frontMatterKey: string;
+}
+
+/**
+ * An item listed on the deprecated APIs page.
+ */
+interface IHugoDeprecatedItem {
+	apiItem: ApiDocumentedItem;
+	deprecatedBlock: DocBlock;
 }
 
 /**
@@ -83,19 +231,130 @@ export class HugoDocumenter {
 	private readonly _markdownEmitter: HugoMarkdownEmitter;
 	private readonly _outputFolder: string;
 	private readonly _pluginLoader: PluginLoader;
-	// TODO: this is currently hardcoded, but useful for the docsy theme. This should be configurable
-	private readonly _baseUrl: string = '/docs';
+	private readonly _baseUrl: string;
+	private readonly _pageLayout: HugoPageLayout;
+	private readonly _outputChecker: OutputChecker | undefined;
+	private readonly _version: string | undefined;
+	private readonly _versionsDataFile: string | undefined;
+	private readonly _language: string | undefined;
+	private readonly _languageLayout: HugoLanguageLayout;
+	private readonly _strings: IHugoStrings;
+	private readonly _sourceUrlTemplate: string | undefined;
+	private readonly _sourceRef: string;
+	private readonly _blockTagRules: IHugoBlockTagRule[];
+	private readonly _deprecatedIndexName: string | undefined;
+	private readonly _minReleaseTag: ReleaseTag;
+	private readonly _excludedReferenceWarnings: Set<string> = new Set();
+	private readonly _deprecatedItems: IHugoDeprecatedItem[] = [];
+	private readonly _writtenFiles: Set<string> = new Set();
+	private readonly _writeSummary: IHugoWriteSummary = { added: 0, changed: 0, unchanged: 0, removed: 0 };
+
+	/**
+	 * The name of the file in the output folder that lists every file generated by the previous run.
+	 */
+	public static readonly MANIFEST_FILENAME: string = '.api-documenter-manifest.json';
 
 	public constructor(options: IMarkdownDocumenterOptions) {
+		const hugoConfig: IConfigHugo | undefined = options.documenterConfig?.configFile.hugo;
+
 		this._apiModel = options.apiModel;
 		this._documenterConfig = options.documenterConfig;
-		this._outputFolder = options.outputFolder;
 		this._tsdocConfiguration = CustomDocNodes.configuration;
-		this._markdownEmitter = new HugoMarkdownEmitter(this._apiModel);
+		this._markdownEmitter = new HugoMarkdownEmitter(this._apiModel, {
+			noteBoxStyle: hugoConfig?.noteBoxStyle,
+			noteBoxShortcode: hugoConfig?.noteBoxShortcode,
+			noteBoxSeverities: hugoConfig?.noteBoxSeverities,
+			tableStyle: hugoConfig?.tableStyle,
+			tableShortcode: hugoConfig?.tableShortcode,
+			badgeStyle: hugoConfig?.badgeStyle,
+			badgeShortcode: hugoConfig?.badgeShortcode,
+			linkStyle: hugoConfig?.linkStyle,
+			siteUrl: hugoConfig?.siteUrl,
+		});
+		this._version = options.version ?? hugoConfig?.version;
+		this._versionsDataFile = hugoConfig?.versionsDataFile ?? this._getDefaultVersionsDataFile(options.outputFolder);
+		if (this._version !== undefined && this._versionsDataFile === undefined) {
+			throw new Error(
+				`The output folder "${options.outputFolder}" is not inside a Hugo "content" folder,`
+					+ ' so the "versionsDataFile" setting is required when generating versioned docs',
+			);
+		}
+		this._language = options.language ?? hugoConfig?.language;
+		this._languageLayout = hugoConfig?.languageLayout ?? 'suffix';
+		this._strings = {
+			...defaultHugoStrings,
+			...hugoConfig?.strings?.['*'],
+			...(this._language !== undefined ? hugoConfig?.strings?.[this._language] : undefined),
+		};
+
+		// The language folder is not part of the content path, because Hugo mounts it for that language only
+		let outputFolder: string = options.outputFolder;
+		if (this._language !== undefined && this._languageLayout === 'folder') {
+			outputFolder = path.join(outputFolder, this._language);
+		}
+
+		// Each version gets its own subsection, so that generating one version never touches the others
+		const baseUrl: string = HugoDocumenter._normalizeBaseUrl(options.baseUrl ?? hugoConfig?.baseUrl ?? '/docs');
+		if (this._version !== undefined) {
+			const versionFolder: string = Utilities.getSafeFilenameForName(this._version);
+			this._outputFolder = path.join(outputFolder, versionFolder);
+			this._baseUrl = `${baseUrl}/${versionFolder}`;
+		} else {
+			this._outputFolder = outputFolder;
+			this._baseUrl = baseUrl;
+		}
+
+		this._sourceUrlTemplate = hugoConfig?.sourceUrlTemplate || undefined;
+		this._sourceRef = options.sourceRef ?? hugoConfig?.sourceRef ?? 'main';
+		const minReleaseTag: HugoReleaseTagName | undefined = options.minReleaseTag ?? hugoConfig?.minReleaseTag;
+		this._minReleaseTag = minReleaseTag ? HugoDocumenter._getReleaseTag(minReleaseTag) : ReleaseTag.None;
+		const deprecatedIndex: string | false = hugoConfig?.deprecatedIndex ?? 'deprecated';
+		this._deprecatedIndexName
+			= deprecatedIndex === false ? undefined : Utilities.getSafeFilenameForName(deprecatedIndex);
+		this._blockTagRules = Object.entries(hugoConfig?.blockTags ?? {}).map(([tagName, rule]) =>
+			HugoDocumenter._getBlockTagRule(tagName, rule),
+		);
+		this._pageLayout = options.pageLayout ?? this._documenterConfig?.configFile.hugo?.pageLayout ?? 'branch';
+		this._outputChecker = options.outputChecker;
 
 		this._pluginLoader = new PluginLoader();
 	}
 
+	/**
+	 * Converts a content path such as "reference/api/" into the form "/reference/api" so that it can be
+	 * joined with the filenames generated for each page. The content root is represented by an empty string.
+	 */
+	private static _normalizeBaseUrl(baseUrl: string): string {
+		const trimmed: string = baseUrl.trim().replace(/^\/+|\/+$/g, '');
+		return trimmed.length > 0 ? `/${trimmed}` : '';
+	}
+
+	private static _getReleaseTag(releaseTagName: HugoReleaseTagName): ReleaseTag {
+		switch (releaseTagName) {
+			case 'internal':
+				return ReleaseTag.Internal;
+			case 'alpha':
+				return ReleaseTag.Alpha;
+			case 'beta':
+				return ReleaseTag.Beta;
+			case 'public':
+				return ReleaseTag.Public;
+			default:
+				throw new Error(`Unsupported release tag: ${releaseTagName}`);
+		}
+	}
+
+	private static _getBlockTagRule(tagName: string, rule: IConfigHugoBlockTag): IHugoBlockTagRule {
+		const name: string = tagName.replace(/^@/, '');
+		return {
+			tagName: `@${name}`,
+			renderAs: rule.renderAs ?? 'section',
+			heading: rule.heading ?? name.charAt(0).toUpperCase() + name.slice(1),
+			placement: rule.placement ?? 'afterRemarks',
+			frontMatterKey: rule.frontMatterKey ?? name,
+		};
+	}
+
 	public generateFiles(): void {
 		if (this._documenterConfig) {
 			this._pluginLoader.load(this._documenterConfig, () => {
@@ -112,9 +371,31 @@ export class HugoDocumenter {
 		}
 
 		console.log();
-		this._deleteOldOutputFiles();
+		this._checkBlockTagDefinitions();
+		const previousFiles: string[] = this._loadManifest();
+		// Loaded before any page is written, so that an invalid file stops the run before it changes anything
+		const versionsData: IHugoVersionsDataFile | undefined
+			= this._version !== undefined && this._versionsDataFile !== undefined
+				? this._loadVersionsDataFile(this._versionsDataFile)
+				: undefined;
+
+		if (this._deprecatedIndexName !== undefined) {
+			this._collectDeprecatedItems(this._apiModel);
+		}
 
 		this._writeApiItemPage(this._apiModel);
+		this._writeDeprecatedIndexPage();
+
+		this._deleteStaleOutputFiles(previousFiles);
+		if (!this._outputChecker) {
+			this._saveManifest();
+		}
+		if (this._version !== undefined && this._versionsDataFile !== undefined && versionsData !== undefined) {
+			this._writeVersionsDataFile(this._version, this._versionsDataFile, versionsData);
+		}
+
+		const { added, changed, unchanged, removed } = this._writeSummary;
+		console.log(`Pages: ${added} added, ${changed} changed, ${unchanged} unchanged, ${removed} removed`);
 
 		if (this._pluginLoader.markdownDocumenterFeature) {
 			this._pluginLoader.markdownDocumenterFeature.onFinished({});
@@ -130,7 +411,7 @@ export class HugoDocumenter {
 
 		switch (apiItem.kind) {
 			case ApiItemKind.Class:
-				frontMatter.title = `${scopedName} class`;
+				frontMatter.title = this._getString('classTitle', { name: scopedName });
 				break;
 			case ApiItemKind.EntryPoint: {
 				// TODO: Skip the root entrypoint as the package already writes this file
@@ -138,14 +419,16 @@ export class HugoDocumenter {
 					return;
 				}
 				const unscopedPackageName: string = PackageName.getUnscopedName((apiItem.parent as ApiPackage).displayName);
-				frontMatter.title = `${unscopedPackageName}/${apiItem.displayName} entrypoint`;
+				frontMatter.title = this._getString('entryPointTitle', {
+					name: `${unscopedPackageName}/${apiItem.displayName}`,
+				});
 				break;
 			}
 			case ApiItemKind.Enum:
-				frontMatter.title = `${scopedName} enum`;
+				frontMatter.title = this._getString('enumTitle', { name: scopedName });
 				break;
 			case ApiItemKind.Interface:
-				frontMatter.title = `${scopedName} interface`;
+				frontMatter.title = this._getString('interfaceTitle', { name: scopedName });
 				break;
 			case ApiItemKind.Constructor:
 			case ApiItemKind.ConstructSignature:
@@ -153,37 +436,50 @@ export class HugoDocumenter {
 				break;
 			case ApiItemKind.Method:
 			case ApiItemKind.MethodSignature:
-				frontMatter.title = `${scopedName} method`;
+				frontMatter.title = this._getString('methodTitle', { name: scopedName });
 				break;
 			case ApiItemKind.Function:
-				frontMatter.title = `${scopedName} function`;
+				frontMatter.title = this._getString('functionTitle', { name: scopedName });
 				break;
 			case ApiItemKind.Model:
-				frontMatter.title = 'API Reference';
-				frontMatter.menu = { main: { weight: 20 } };
+				frontMatter.title = this._strings.modelTitle;
+				// Every version has its own model page, so only an unversioned one gets a main menu entry
+				if (this._version === undefined) {
+					frontMatter.menu = { main: { weight: 20 } };
+				}
 				break;
 			case ApiItemKind.Namespace:
-				frontMatter.title = `${scopedName} namespace`;
+				frontMatter.title = this._getString('namespaceTitle', { name: scopedName });
 				break;
 			case ApiItemKind.Package:
 				console.log(`Writing ${apiItem.displayName} package`);
 				const unscopedPackageName: string = PackageName.getUnscopedName(apiItem.displayName);
-				frontMatter.title = `${unscopedPackageName} package`;
+				frontMatter.title = this._getString('packageTitle', { name: unscopedPackageName });
 				break;
 			case ApiItemKind.Property:
 			case ApiItemKind.PropertySignature:
-				frontMatter.title = `${scopedName} property`;
+				frontMatter.title = this._getString('propertyTitle', { name: scopedName });
 				break;
 			case ApiItemKind.TypeAlias:
-				frontMatter.title = `${scopedName} type`;
+				frontMatter.title = this._getString('typeAliasTitle', { name: scopedName });
 				break;
 			case ApiItemKind.Variable:
-				frontMatter.title = `${scopedName} variable`;
+				frontMatter.title = this._getString('variableTitle', { name: scopedName });
 				break;
 			default:
 				throw new Error(`Unsupported API item kind: ${apiItem.kind}`);
 		}
 
+		this._writeSummaryFrontMatter(frontMatter, apiItem);
+		this._writeBlockTagFrontMatter(frontMatter, apiItem);
+		if (apiItem instanceof ApiDocumentedItem && apiItem.tsdocComment?.deprecatedBlock) {
+			frontMatter.deprecated = true;
+		}
+		this._applyConfiguredFrontMatter(frontMatter, apiItem);
+		this._applyReleaseTagFrontMatter(frontMatter, apiItem);
+
+		this._writeModifierBadges(output, apiItem);
+
 		if (ApiReleaseTagMixin.isBaseClassOf(apiItem)) {
 			if (apiItem.releaseTag === ReleaseTag.Alpha) {
 				this._writeAlphaWarning(output);
@@ -192,6 +488,8 @@ export class HugoDocumenter {
 			}
 		}
 
+		this._writeBlockTags(output, apiItem, 'beforeSummary');
+
 		const decoratorBlocks: DocBlock[] = [];
 
 		if (apiItem instanceof ApiDocumentedItem) {
@@ -206,11 +504,11 @@ export class HugoDocumenter {
 
 				if (tsdocComment.deprecatedBlock) {
 					output.appendNode(
-						new DocNoteBox({ configuration }, [
+						new DocNoteBox({ configuration, source: 'deprecated' }, [
 							new DocParagraph({ configuration }, [
 								new DocPlainText({
 									configuration,
-									text: 'Warning: This API is now obsolete. ',
+									text: this._strings.deprecatedWarning,
 								}),
 							]),
 							...tsdocComment.deprecatedBlock.content.nodes,
@@ -222,12 +520,14 @@ export class HugoDocumenter {
 			}
 		}
 
+		this._writeBlockTags(output, apiItem, 'afterSummary');
+
 		if (apiItem instanceof ApiDeclaredItem) {
 			if (apiItem.excerpt.text.length > 0) {
 				output.appendNode(
 					new DocParagraph({ configuration }, [
 						new DocEmphasisSpan({ configuration, bold: true }, [
-							new DocPlainText({ configuration, text: 'Signature:' }),
+							new DocPlainText({ configuration, text: this._strings.signatureLabel }),
 						]),
 					]),
 				);
@@ -241,13 +541,14 @@ export class HugoDocumenter {
 			}
 
 			this._writeHeritageTypes(output, apiItem);
+			this._writeSourceLink(output, apiItem);
 		}
 
 		if (decoratorBlocks.length > 0) {
 			output.appendNode(
 				new DocParagraph({ configuration }, [
 					new DocEmphasisSpan({ configuration, bold: true }, [
-						new DocPlainText({ configuration, text: 'Decorators:' }),
+						new DocPlainText({ configuration, text: this._strings.decoratorsLabel }),
 					]),
 				]),
 			);
@@ -267,6 +568,10 @@ export class HugoDocumenter {
 				break;
 		}
 
+		if (ApiTypeParameterListMixin.isBaseClassOf(apiItem)) {
+			this._writeTypeParameterTable(output, apiItem);
+		}
+
 		switch (apiItem.kind) {
 			case ApiItemKind.Class:
 				this._writeClassTables(output, apiItem as ApiClass);
@@ -300,6 +605,7 @@ export class HugoDocumenter {
 				break;
 			case ApiItemKind.Property:
 			case ApiItemKind.PropertySignature:
+				this._writeDefaultValueSection(output, apiItem);
 				break;
 			case ApiItemKind.TypeAlias:
 				break;
@@ -313,15 +619,18 @@ export class HugoDocumenter {
 			this._writeRemarksSection(output, apiItem);
 		}
 
-		const filename: string = path.join(this._outputFolder, this._getFilenameForApiItem(apiItem));
+		this._writeBlockTags(output, apiItem, 'end');
+
+		const filename: string = path.join(this._outputFolder, this._getPageFilenameForApiItem(apiItem));
 		const stringBuilder: StringBuilder = new StringBuilder();
 
 		// stringBuilder.append('<!-- Do not edit this file. It is automatically generated by API Documenter. -->\n\n');
 
 		this._markdownEmitter.emitWithFrontMatter(stringBuilder, output, frontMatter, {
 			contextApiItem: apiItem,
+			pageFilename: this._getLinkFilenameForApiItem(apiItem),
 			onGetFilenameForApiItem: (apiItemForFilename: ApiItem) => {
-				return this._getLinkFilenameForApiItem(apiItemForFilename);
+				return this._tryGetLinkFilenameForApiItem(apiItemForFilename);
 			},
 		});
 
@@ -338,10 +647,312 @@ export class HugoDocumenter {
 			pageContent = eventArgs.pageContent;
 		}
 
-		FileSystem.ensureFolder(path.dirname(filename));
-		FileSystem.writeFile(filename, pageContent, {
-			convertLineEndings: this._documenterConfig ? this._documenterConfig.newlineKind : NewlineKind.CrLf,
+		this._writePage(filename, pageContent);
+	}
+
+	private _writePage(filename: string, pageContent: string): void {
+		this._writeFileIfChanged(
+			filename,
+			Text.convertTo(pageContent, this._documenterConfig ? this._documenterConfig.newlineKind : NewlineKind.CrLf),
+		);
+		this._writtenFiles.add(path.relative(this._outputFolder, filename).split(path.sep).join('/'));
+	}
+
+	/**
+	 * Finds every item with a `@deprecated` block, in the order that their pages are written.
+	 */
+	private _collectDeprecatedItems(apiItem: ApiItem): void {
+		if (!this._isIncluded(apiItem)) {
+			return;
+		}
+		if (apiItem instanceof ApiDocumentedItem) {
+			const deprecatedBlock: DocBlock | undefined = apiItem.tsdocComment?.deprecatedBlock;
+			if (deprecatedBlock && this._isListed(apiItem)) {
+				this._deprecatedItems.push({ apiItem, deprecatedBlock });
+			}
+		}
+		for (const member of apiItem.members) {
+			this._collectDeprecatedItems(member);
+		}
+	}
+
+	/**
+	 * GENERATE PAGE: DEPRECATED APIS
+	 *
+	 * @remarks
+	 * Lists every deprecated item across all packages with its deprecation message.  The page is only written when
+	 * there is at least one deprecated item.
+	 */
+	private _writeDeprecatedIndexPage(): void {
+		const configuration: TSDocConfiguration = this._tsdocConfiguration;
+		if (this._deprecatedIndexName === undefined || this._deprecatedItems.length === 0) {
+			return;
+		}
+
+		const output: DocSection = new DocSection({ configuration });
+		const frontMatter: Record<string, unknown> = { title: this._strings.deprecatedIndexTitle };
+
+		const deprecatedTable: DocTable = new DocTable({
+			configuration,
+			headerTitles: [this._strings.apiColumn, this._strings.packageColumn, this._strings.messageColumn],
+		});
+
+		for (const { apiItem, deprecatedBlock } of this._deprecatedItems) {
+			const apiPackage: ApiPackage | undefined = apiItem.getAssociatedPackage();
+
+			// The page has no context item, so links are resolved relative to the deprecated item beforehand
+			const messageSection: DocSection = new DocSection({ configuration });
+			this._appendAndMergeSection(
+				messageSection,
+				this._resolveCodeLinks(deprecatedBlock.content, apiItem),
+			);
+
+			deprecatedTable.addRow(
+				new DocTableRow({ configuration }, [
+					new DocTableCell({ configuration }, [
+						new DocParagraph({ configuration }, [
+							new DocLinkTag({
+								configuration,
+								tagName: '@link',
+								linkText: apiItem.getScopedNameWithinPackage(),
+								urlDestination: this._getLinkFilenameForApiItem(apiItem),
+							}),
+						]),
+					]),
+					new DocTableCell({ configuration }, [
+						new DocParagraph({ configuration }, [
+							new DocPlainText({ configuration, text: apiPackage ? apiPackage.displayName : '' }),
+						]),
+					]),
+					new DocTableCell({ configuration }, messageSection.nodes),
+				]),
+			);
+		}
+
+		output.appendNode(deprecatedTable);
+
+		const filename: string = path.join(
+			this._outputFolder,
+			this._addLanguageSuffix(this._getFilenameForPage(this._deprecatedIndexName, false)),
+		);
+		const stringBuilder: StringBuilder = new StringBuilder();
+		this._markdownEmitter.emitWithFrontMatter(stringBuilder, output, frontMatter, {
+			contextApiItem: undefined,
+			pageFilename: `${this._baseUrl}/${this._getFilenameForPage(this._deprecatedIndexName, false)}`,
+			onGetFilenameForApiItem: (apiItemForFilename: ApiItem) => {
+				return this._tryGetLinkFilenameForApiItem(apiItemForFilename);
+			},
 		});
+
+		this._writePage(filename, stringBuilder.toString());
+	}
+
+	/**
+	 * Writes a page unless the existing file already has the same content, so that unchanged pages keep their
+	 * modification times and aren't picked up by `hugo server` or deployment tools.
+	 */
+	private _writeFileIfChanged(filename: string, content: string): void {
+		if (FileSystem.exists(filename)) {
+			const existingHash: string = HugoDocumenter._getContentHash(FileSystem.readFileToBuffer(filename));
+			if (existingHash === HugoDocumenter._getContentHash(Buffer.from(content))) {
+				++this._writeSummary.unchanged;
+				return;
+			}
+			++this._writeSummary.changed;
+		} else {
+			++this._writeSummary.added;
+		}
+
+		if (this._outputChecker) {
+			this._outputChecker.checkFile(filename, content);
+			return;
+		}
+
+		FileSystem.writeFile(filename, content, { ensureFolderExists: true });
+	}
+
+	private static _getContentHash(content: Buffer): string {
+		return crypto.createHash('sha1').update(content).digest('hex');
+	}
+
+	/**
+	 * Copies the item's TSDoc summary into the `summary` and `description` front matter, which Hugo uses for list
+	 * pages, search snippets and meta tags. The description is truncated to the configured length.
+	 */
+	private _writeSummaryFrontMatter(frontMatter: Record<string, unknown>, apiItem: ApiItem): void {
+		const hugoConfig: IConfigHugo | undefined = this._documenterConfig?.configFile.hugo;
+		if (hugoConfig?.autoDescription === false) {
+			return;
+		}
+
+		if (apiItem instanceof ApiDocumentedItem && apiItem.tsdocComment) {
+			const summary: string = this._getPlainText(apiItem.tsdocComment.summarySection, apiItem);
+			if (summary.length > 0) {
+				frontMatter.description = Utilities.truncateAtSentence(summary, hugoConfig?.descriptionMaxLength ?? 160);
+				frontMatter.summary = summary;
+			}
+		}
+	}
+
+	/**
+	 * Merges the front matter configured for this kind of API item over the generated defaults.
+	 *
+	 * @remarks
+	 * Entries under the "*" key apply to every page, and are applied before the entries for the specific kind.
+	 * Placeholders such as `{displayName}` are expanded in every string value, including nested ones.
+	 */
+	private _applyConfiguredFrontMatter(frontMatter: Record<string, unknown>, apiItem: ApiItem): void {
+		const configuredFrontMatter: Record<string, Record<string, unknown>> | undefined
+			= this._documenterConfig?.configFile.hugo?.frontMatter;
+		if (!configuredFrontMatter) {
+			return;
+		}
+
+		const templates: Record<string, unknown>[] = [
+			configuredFrontMatter['*'],
+			configuredFrontMatter[apiItem.kind],
+		].filter((template): template is Record<string, unknown> => template !== undefined);
+		if (templates.length === 0) {
+			return;
+		}
+
+		const values: Record<string, string> = this._getFrontMatterPlaceholderValues(apiItem);
+		for (const template of templates) {
+			for (const [key, value] of Object.entries(template)) {
+				frontMatter[key] = this._expandFrontMatterValue(value, values);
+			}
+		}
+	}
+
+	/**
+	 * Merges the front matter configured for the item's release tag over everything else.
+	 */
+	private _applyReleaseTagFrontMatter(frontMatter: Record<string, unknown>, apiItem: ApiItem): void {
+		const template: Record<string, unknown> | undefined = this._getReleaseTagFrontMatter(apiItem);
+		if (!template) {
+			return;
+		}
+
+		const values: Record<string, string> = this._getFrontMatterPlaceholderValues(apiItem);
+		for (const [key, value] of Object.entries(template)) {
+			frontMatter[key] = this._expandFrontMatterValue(value, values);
+		}
+	}
+
+	private _getReleaseTagFrontMatter(apiItem: ApiItem): Record<string, unknown> | undefined {
+		if (!ApiReleaseTagMixin.isBaseClassOf(apiItem) || apiItem.releaseTag === ReleaseTag.None) {
+			return undefined;
+		}
+
+		const releaseTagName: string = ReleaseTag.getTagName(apiItem.releaseTag).replace(/^@/, '');
+		return this._documenterConfig?.configFile.hugo?.releaseTagFrontMatter?.[releaseTagName as HugoReleaseTagName];
+	}
+
+	/**
+	 * Whether Hugo lists the item's page.  Pages that are drafts, or are never listed or rendered, can only be
+	 * reached by a direct link, so they are left out of tables as well.
+	 */
+	private _isListed(apiItem: ApiItem): boolean {
+		const releaseTagFrontMatter: Record<string, unknown> | undefined = this._getReleaseTagFrontMatter(apiItem);
+		if (!releaseTagFrontMatter) {
+			return true;
+		}
+
+		const build: Record<string, unknown> | undefined = releaseTagFrontMatter.build as
+			| Record<string, unknown>
+			| undefined;
+		return !(releaseTagFrontMatter.draft === true || build?.list === 'never' || build?.render === 'never');
+	}
+
+	private _getFrontMatterPlaceholderValues(apiItem: ApiItem): Record<string, string> {
+		let summary: string = '';
+		if (apiItem instanceof ApiDocumentedItem && apiItem.tsdocComment) {
+			summary = this._getPlainText(apiItem.tsdocComment.summarySection, apiItem);
+		}
+
+		// The model page doesn't belong to any package
+		const apiPackage: ApiPackage | undefined = apiItem.getAssociatedPackage();
+
+		return {
+			displayName: apiItem.displayName,
+			scopedName: apiItem.getScopedNameWithinPackage(),
+			packageName: apiPackage ? apiPackage.displayName : '',
+			unscopedPackageName: apiPackage ? PackageName.getUnscopedName(apiPackage.displayName) : '',
+			kind: apiItem.kind,
+			releaseTag: ApiReleaseTagMixin.isBaseClassOf(apiItem)
+				? ReleaseTag.getTagName(apiItem.releaseTag).replace(/^@/, '')
+				: '',
+			summary,
+			version: this._version ?? '',
+		};
+	}
+
+	private _expandFrontMatterValue(value: unknown, values: Record<string, string>): unknown {
+		if (typeof value === 'string') {
+			return Utilities.expandPlaceholders(value, values);
+		}
+		if (Array.isArray(value)) {
+			return value.map((x) => this._expandFrontMatterValue(x, values));
+		}
+		if (value !== null && typeof value === 'object') {
+			const result: Record<string, unknown> = {};
+			for (const [key, nestedValue] of Object.entries(value)) {
+				result[key] = this._expandFrontMatterValue(nestedValue, values);
+			}
+			return result;
+		}
+		return value;
+	}
+
+	/**
+	 * Renders TSDoc content as a single line of plain text, with links replaced by their text and any markup removed.
+	 */
+	private _getPlainText(docNode: DocNode, contextApiItem: ApiItem): string {
+		const getChildText = (): string =>
+			docNode
+				.getChildNodes()
+				.map((x) => this._getPlainText(x, contextApiItem))
+				.join('')
+				.replace(/\s+/g, ' ')
+				.trim();
+
+		switch (docNode.kind) {
+			case DocNodeKind.PlainText:
+				return (docNode as DocPlainText).text;
+			case DocNodeKind.CodeSpan:
+				return (docNode as DocCodeSpan).code;
+			case DocNodeKind.EscapedText:
+				return (docNode as DocEscapedText).decodedText;
+			case DocNodeKind.ErrorText:
+				// Unescaped characters such as ">" or "{" are still part of the text the author wrote
+				return (docNode as DocErrorText).text;
+			case DocNodeKind.SoftBreak:
+				return ' ';
+			case DocNodeKind.LinkTag: {
+				const docLinkTag: DocLinkTag = docNode as DocLinkTag;
+				if (docLinkTag.linkText !== undefined) {
+					return docLinkTag.linkText;
+				}
+				if (docLinkTag.codeDestination) {
+					const result: IResolveDeclarationReferenceResult = this._apiModel.resolveDeclarationReference(
+						docLinkTag.codeDestination,
+						contextApiItem,
+					);
+					return result.resolvedApiItem
+						? result.resolvedApiItem.getScopedNameWithinPackage()
+						: docLinkTag.codeDestination.emitAsTsdoc();
+				}
+				return docLinkTag.urlDestination ?? '';
+			}
+			case DocNodeKind.Paragraph:
+				// Keep consecutive paragraphs apart once they are joined into a single line
+				return `${getChildText()} `;
+			case DocNodeKind.Section:
+				return getChildText();
+			default:
+				// Code blocks, HTML tags and other markup have no plain text representation
+				return '';
+		}
 	}
 
 	private _writeHeritageTypes(output: DocSection, apiItem: ApiDeclaredItem): void {
@@ -350,7 +961,9 @@ export class HugoDocumenter {
 		if (apiItem instanceof ApiClass) {
 			if (apiItem.extendsType) {
 				const extendsParagraph: DocParagraph = new DocParagraph({ configuration }, [
-					new DocEmphasisSpan({ configuration, bold: true }, [new DocPlainText({ configuration, text: 'Extends: ' })]),
+					new DocEmphasisSpan({ configuration, bold: true }, [
+						new DocPlainText({ configuration, text: this._strings.extendsLabel }),
+					]),
 				]);
 				this._appendExcerptWithHyperlinks(extendsParagraph, apiItem.extendsType.excerpt);
 				output.appendNode(extendsParagraph);
@@ -358,7 +971,7 @@ export class HugoDocumenter {
 			if (apiItem.implementsTypes.length > 0) {
 				const implementsParagraph: DocParagraph = new DocParagraph({ configuration }, [
 					new DocEmphasisSpan({ configuration, bold: true }, [
-						new DocPlainText({ configuration, text: 'Implements: ' }),
+						new DocPlainText({ configuration, text: this._strings.implementsLabel }),
 					]),
 				]);
 				let needsComma: boolean = false;
@@ -376,7 +989,9 @@ export class HugoDocumenter {
 		if (apiItem instanceof ApiInterface) {
 			if (apiItem.extendsTypes.length > 0) {
 				const extendsParagraph: DocParagraph = new DocParagraph({ configuration }, [
-					new DocEmphasisSpan({ configuration, bold: true }, [new DocPlainText({ configuration, text: 'Extends: ' })]),
+					new DocEmphasisSpan({ configuration, bold: true }, [
+						new DocPlainText({ configuration, text: this._strings.extendsLabel }),
+					]),
 				]);
 				let needsComma: boolean = false;
 				for (const extendsType of apiItem.extendsTypes) {
@@ -400,7 +1015,7 @@ export class HugoDocumenter {
 			if (refs.length > 0) {
 				const referencesParagraph: DocParagraph = new DocParagraph({ configuration }, [
 					new DocEmphasisSpan({ configuration, bold: true }, [
-						new DocPlainText({ configuration, text: 'References: ' }),
+						new DocPlainText({ configuration, text: this._strings.referencesLabel }),
 					]),
 				]);
 				let needsComma: boolean = false;
@@ -432,7 +1047,7 @@ export class HugoDocumenter {
 			if (tsdocComment) {
 				// Write the @remarks block
 				if (tsdocComment.remarksBlock) {
-					output.appendNode(new DocHeading({ configuration, title: 'Remarks' }));
+					output.appendNode(new DocHeading({ configuration, title: this._strings.remarksHeading }));
 					this._appendSection(output, tsdocComment.remarksBlock.content);
 				}
 
@@ -443,7 +1058,10 @@ export class HugoDocumenter {
 
 				let exampleNumber: number = 1;
 				for (const exampleBlock of exampleBlocks) {
-					const heading: string = exampleBlocks.length > 1 ? `Example ${exampleNumber}` : 'Example';
+					const heading: string
+						= exampleBlocks.length > 1
+							? this._getString('numberedExampleHeading', { number: String(exampleNumber) })
+							: this._strings.exampleHeading;
 
 					output.appendNode(new DocHeading({ configuration, title: heading }));
 
@@ -451,8 +1069,133 @@ export class HugoDocumenter {
 
 					++exampleNumber;
 				}
+
+				// Write the @see blocks as a list, one item per block
+				if (tsdocComment.seeBlocks.length > 0) {
+					output.appendNode(new DocHeading({ configuration, title: this._strings.seeAlsoHeading }));
+
+					for (const seeBlock of tsdocComment.seeBlocks) {
+						const listItem: DocSection = new DocSection({ configuration });
+						listItem.appendNodeInParagraph(new DocPlainText({ configuration, text: '- ' }));
+						this._appendAndMergeSection(listItem, seeBlock.content);
+						this._appendSection(output, listItem);
+					}
+				}
 			}
 		}
+
+		this._writeBlockTags(output, apiItem, 'afterRemarks');
+	}
+
+	/**
+	 * Writes the custom blocks whose configured rule places them at `placement`, in the order of the rules.
+	 */
+	private _writeBlockTags(output: DocSection, apiItem: ApiItem, placement: HugoBlockTagPlacement): void {
+		const configuration: TSDocConfiguration = this._tsdocConfiguration;
+
+		for (const rule of this._blockTagRules) {
+			if (rule.renderAs === 'frontMatter' || rule.placement !== placement) {
+				continue;
+			}
+
+			const blocks: DocBlock[] = this._getCustomBlocks(apiItem, rule.tagName);
+			if (blocks.length === 0) {
+				continue;
+			}
+
+			if (rule.renderAs === 'noteBox') {
+				const content: DocSection = new DocSection({ configuration });
+				content.appendNode(
+					new DocParagraph({ configuration }, [
+						new DocEmphasisSpan({ configuration, bold: true }, [
+							new DocPlainText({ configuration, text: rule.heading }),
+						]),
+					]),
+				);
+				for (const block of blocks) {
+					this._appendSection(content, block.content);
+				}
+				output.appendNode(new DocNoteBox({ configuration, source: rule.tagName.slice(1) }, content.nodes));
+			} else {
+				output.appendNode(new DocHeading({ configuration, title: rule.heading }));
+				for (const block of blocks) {
+					this._appendSection(output, block.content);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Copies the text of the custom blocks that are configured as front matter fields.  A tag that appears more than
+	 * once becomes a list.
+	 */
+	private _writeBlockTagFrontMatter(frontMatter: Record<string, unknown>, apiItem: ApiItem): void {
+		for (const rule of this._blockTagRules) {
+			if (rule.renderAs !== 'frontMatter') {
+				continue;
+			}
+
+			const values: string[] = this._getCustomBlocks(apiItem, rule.tagName)
+				.map((block) => this._getPlainText(block.content, apiItem))
+				.filter((value) => value.length > 0);
+			if (values.length > 0) {
+				frontMatter[rule.frontMatterKey] = values.length === 1 ? values[0] : values;
+			}
+		}
+	}
+
+	private _getCustomBlocks(apiItem: ApiItem, tagName: string): DocBlock[] {
+		if (!(apiItem instanceof ApiDocumentedItem) || !apiItem.tsdocComment) {
+			return [];
+		}
+
+		const tagNameWithUpperCase: string = tagName.toUpperCase();
+		return apiItem.tsdocComment.customBlocks.filter(
+			(block) => block.blockTag.tagNameWithUpperCase === tagNameWithUpperCase,
+		);
+	}
+
+	/**
+	 * Warns about configured block tags that are missing from the TSDoc configuration that API Extractor recorded,
+	 * because the parser leaves the text of an undefined tag in the preceding block.
+	 */
+	private _checkBlockTagDefinitions(): void {
+		if (this._blockTagRules.length === 0) {
+			return;
+		}
+
+		for (const apiPackage of this._apiModel.packages) {
+			// ApiPackage.loadFromJsonFile() only hands the configuration to the parser, so take it from a parsed comment
+			const tsdocConfiguration: TSDocConfiguration | undefined = this._findParsedComment(apiPackage)?.configuration;
+			if (!tsdocConfiguration) {
+				continue;
+			}
+
+			for (const rule of this._blockTagRules) {
+				const definition: TSDocTagDefinition | undefined = tsdocConfiguration.tryGetTagDefinition(rule.tagName);
+				if (!definition || definition.syntaxKind !== TSDocTagSyntaxKind.BlockTag) {
+					console.log(
+						Colorize.yellow(
+							`WARNING: ${rule.tagName} is not defined as a block tag for ${apiPackage.displayName}.`
+								+ ` Define it in the project's tsdoc.json file and run API Extractor again.`,
+						),
+					);
+				}
+			}
+		}
+	}
+
+	private _findParsedComment(apiItem: ApiItem): DocComment | undefined {
+		if (apiItem instanceof ApiDocumentedItem && apiItem.tsdocComment) {
+			return apiItem.tsdocComment;
+		}
+		for (const member of apiItem.members) {
+			const docComment: DocComment | undefined = this._findParsedComment(member);
+			if (docComment) {
+				return docComment;
+			}
+		}
+		return undefined;
 	}
 
 	private _writeThrowsSection(output: DocSection, apiItem: ApiItem): void {
@@ -468,7 +1211,7 @@ export class HugoDocumenter {
 				);
 
 				if (throwsBlocks.length > 0) {
-					const heading: string = 'Exceptions';
+					const heading: string = this._strings.exceptionsHeading;
 					output.appendNode(new DocHeading({ configuration, title: heading }));
 
 					for (const throwsBlock of throwsBlocks) {
@@ -487,7 +1230,7 @@ export class HugoDocumenter {
 
 		const packagesTable: DocTable = new DocTable({
 			configuration,
-			headerTitles: ['Package', 'Description'],
+			headerTitles: [this._strings.packageColumn, this._strings.descriptionColumn],
 		});
 
 		for (const apiMember of apiModel.members) {
@@ -505,9 +1248,24 @@ export class HugoDocumenter {
 		}
 
 		if (packagesTable.rows.length > 0) {
-			output.appendNode(new DocHeading({ configuration, title: 'Packages' }));
+			output.appendNode(new DocHeading({ configuration, title: this._strings.packagesHeading }));
 			output.appendNode(packagesTable);
 		}
+
+		// The link goes under its own heading, because Markdown would treat it as part of a preceding HTML table
+		if (this._deprecatedIndexName !== undefined && this._deprecatedItems.length > 0) {
+			output.appendNode(new DocHeading({ configuration, title: this._strings.seeAlsoHeading }));
+			output.appendNode(
+				new DocParagraph({ configuration }, [
+					new DocLinkTag({
+						configuration,
+						tagName: '@link',
+						linkText: this._strings.deprecatedIndexTitle,
+						urlDestination: `${this._baseUrl}/${this._getFilenameForPage(this._deprecatedIndexName, false)}`,
+					}),
+				]),
+			);
+		}
 	}
 
 	/**
@@ -518,48 +1276,48 @@ export class HugoDocumenter {
 
 		const abstractClassesTable: DocTable = new DocTable({
 			configuration,
-			headerTitles: ['Abstract Class', 'Description'],
+			headerTitles: [this._strings.abstractClassColumn, this._strings.descriptionColumn],
 		});
 
 		const classesTable: DocTable = new DocTable({
 			configuration,
-			headerTitles: ['Class', 'Description'],
+			headerTitles: [this._strings.classColumn, this._strings.descriptionColumn],
 		});
 
 		const enumerationsTable: DocTable = new DocTable({
 			configuration,
-			headerTitles: ['Enumeration', 'Description'],
+			headerTitles: [this._strings.enumerationColumn, this._strings.descriptionColumn],
 		});
 
 		const functionsTable: DocTable = new DocTable({
 			configuration,
-			headerTitles: ['Function', 'Description'],
+			headerTitles: [this._strings.functionColumn, this._strings.descriptionColumn],
 		});
 
 		const interfacesTable: DocTable = new DocTable({
 			configuration,
-			headerTitles: ['Interface', 'Description'],
+			headerTitles: [this._strings.interfaceColumn, this._strings.descriptionColumn],
 		});
 
 		const namespacesTable: DocTable = new DocTable({
 			configuration,
-			headerTitles: ['Namespace', 'Description'],
+			headerTitles: [this._strings.namespaceColumn, this._strings.descriptionColumn],
 		});
 
 		const variablesTable: DocTable = new DocTable({
 			configuration,
-			headerTitles: ['Variable', 'Description'],
+			headerTitles: [this._strings.variableColumn, this._strings.descriptionColumn],
 		});
 
 		const typeAliasesTable: DocTable = new DocTable({
 			configuration,
-			headerTitles: ['Type Alias', 'Description'],
+			headerTitles: [this._strings.typeAliasColumn, this._strings.descriptionColumn],
 		});
 
 		if (apiContainer.kind === ApiItemKind.Package) {
 			const entrypointsTable = new DocTable({
 				configuration,
-				headerTitles: ['Path'],
+				headerTitles: [this._strings.pathColumn],
 			});
 
 			for (const entrypoint of (apiContainer as ApiPackage).entryPoints) {
@@ -579,7 +1337,7 @@ export class HugoDocumenter {
 
 			// There will always be at least one entrypoint, but we only need a table if there is more than the root
 			if (entrypointsTable.rows.length > 1) {
-				output.appendNode(new DocHeading({ configuration, title: 'Entrypoints' }));
+				output.appendNode(new DocHeading({ configuration, title: this._strings.entryPointsHeading }));
 				output.appendNode(entrypointsTable);
 			}
 		}
@@ -589,7 +1347,13 @@ export class HugoDocumenter {
 				? (apiContainer as ApiPackage).entryPoints.flatMap((ep) => ep.members)
 				: (apiContainer as ApiNamespace).members;
 
-		for (const apiMember of apiMembers) {
+		for (const apiMember of apiMembers.filter((x) => this._isIncluded(x))) {
+			if (!this._isListed(apiMember)) {
+				// The page is still written, so that it can be reached by a direct link
+				this._writeApiItemPage(apiMember);
+				continue;
+			}
+
 			const row: DocTableRow = new DocTableRow({ configuration }, [
 				this._createTitleCell(apiMember),
 				this._createDescriptionCell(apiMember),
@@ -638,41 +1402,41 @@ export class HugoDocumenter {
 		}
 
 		if (classesTable.rows.length > 0) {
-			output.appendNode(new DocHeading({ configuration, title: 'Classes' }));
+			output.appendNode(new DocHeading({ configuration, title: this._strings.classesHeading }));
 			output.appendNode(classesTable);
 		}
 
 		if (abstractClassesTable.rows.length > 0) {
-			output.appendNode(new DocHeading({ configuration, title: 'Abstract Classes' }));
+			output.appendNode(new DocHeading({ configuration, title: this._strings.abstractClassesHeading }));
 			output.appendNode(abstractClassesTable);
 		}
 
 		if (enumerationsTable.rows.length > 0) {
-			output.appendNode(new DocHeading({ configuration, title: 'Enumerations' }));
+			output.appendNode(new DocHeading({ configuration, title: this._strings.enumerationsHeading }));
 			output.appendNode(enumerationsTable);
 		}
 		if (functionsTable.rows.length > 0) {
-			output.appendNode(new DocHeading({ configuration, title: 'Functions' }));
+			output.appendNode(new DocHeading({ configuration, title: this._strings.functionsHeading }));
 			output.appendNode(functionsTable);
 		}
 
 		if (interfacesTable.rows.length > 0) {
-			output.appendNode(new DocHeading({ configuration, title: 'Interfaces' }));
+			output.appendNode(new DocHeading({ configuration, title: this._strings.interfacesHeading }));
 			output.appendNode(interfacesTable);
 		}
 
 		if (namespacesTable.rows.length > 0) {
-			output.appendNode(new DocHeading({ configuration, title: 'Namespaces' }));
+			output.appendNode(new DocHeading({ configuration, title: this._strings.namespacesHeading }));
 			output.appendNode(namespacesTable);
 		}
 
 		if (variablesTable.rows.length > 0) {
-			output.appendNode(new DocHeading({ configuration, title: 'Variables' }));
+			output.appendNode(new DocHeading({ configuration, title: this._strings.variablesHeading }));
 			output.appendNode(variablesTable);
 		}
 
 		if (typeAliasesTable.rows.length > 0) {
-			output.appendNode(new DocHeading({ configuration, title: 'Type Aliases' }));
+			output.appendNode(new DocHeading({ configuration, title: this._strings.typeAliasesHeading }));
 			output.appendNode(typeAliasesTable);
 		}
 	}
@@ -683,75 +1447,108 @@ export class HugoDocumenter {
 	private _writeClassTables(output: DocSection, apiClass: ApiClass): void {
 		const configuration: TSDocConfiguration = this._tsdocConfiguration;
 
+		const apiMembers: ReadonlyArray<ApiItem> = this._getMembersAndWriteIncompleteWarning(apiClass, output);
+		const showDefaultValues: boolean = apiMembers.some(
+			(apiMember) =>
+				apiMember instanceof ApiPropertyItem
+				&& this._isListed(apiMember)
+				&& !apiMember.isEventProperty
+				&& this._getDefaultValueBlock(apiMember) !== undefined,
+		);
+
 		const eventsTable: DocTable = new DocTable({
 			configuration,
-			headerTitles: ['Property', 'Modifiers', 'Type', 'Description'],
+			headerTitles: [
+				this._strings.propertyColumn,
+				this._strings.modifiersColumn,
+				this._strings.typeColumn,
+				this._strings.descriptionColumn,
+			],
 		});
 
 		const constructorsTable: DocTable = new DocTable({
 			configuration,
-			headerTitles: ['Constructor', 'Modifiers', 'Description'],
+			headerTitles: [
+				this._strings.constructorColumn,
+				this._strings.modifiersColumn,
+				this._strings.descriptionColumn,
+			],
 		});
 
 		const propertiesTable: DocTable = new DocTable({
 			configuration,
-			headerTitles: ['Property', 'Modifiers', 'Type', 'Description'],
+			headerTitles: [
+				this._strings.propertyColumn,
+				this._strings.modifiersColumn,
+				this._strings.typeColumn,
+				...(showDefaultValues ? [this._strings.defaultColumn] : []),
+				this._strings.descriptionColumn,
+			],
 		});
 
 		const methodsTable: DocTable = new DocTable({
 			configuration,
-			headerTitles: ['Method', 'Modifiers', 'Description'],
+			headerTitles: [this._strings.methodColumn, this._strings.modifiersColumn, this._strings.descriptionColumn],
 		});
 
-		const apiMembers: ReadonlyArray<ApiItem> = this._getMembersAndWriteIncompleteWarning(apiClass, output);
 		for (const apiMember of apiMembers) {
 			const isInherited: boolean = apiMember.parent !== apiClass;
+			// Unlisted members are left out of the tables, but their pages are still written so that they can be
+			// reached by a direct link
+			const isListed: boolean = this._isListed(apiMember);
 			switch (apiMember.kind) {
 				case ApiItemKind.Constructor: {
-					constructorsTable.addRow(
-						new DocTableRow({ configuration }, [
-							this._createTitleCell(apiMember),
-							this._createModifiersCell(apiMember),
-							this._createDescriptionCell(apiMember, isInherited),
-						]),
-					);
-
-					this._writeApiItemPage(apiMember);
-					break;
-				}
-				case ApiItemKind.Method: {
-					methodsTable.addRow(
-						new DocTableRow({ configuration }, [
-							this._createTitleCell(apiMember),
-							this._createModifiersCell(apiMember),
-							this._createDescriptionCell(apiMember, isInherited),
-						]),
-					);
-
-					this._writeApiItemPage(apiMember);
-					break;
-				}
-				case ApiItemKind.Property: {
-					if ((apiMember as ApiPropertyItem).isEventProperty) {
-						eventsTable.addRow(
+					if (isListed) {
+						constructorsTable.addRow(
 							new DocTableRow({ configuration }, [
 								this._createTitleCell(apiMember),
 								this._createModifiersCell(apiMember),
-								this._createPropertyTypeCell(apiMember),
 								this._createDescriptionCell(apiMember, isInherited),
 							]),
 						);
-					} else {
-						propertiesTable.addRow(
+					}
+
+					this._writeApiItemPage(apiMember);
+					break;
+				}
+				case ApiItemKind.Method: {
+					if (isListed) {
+						methodsTable.addRow(
 							new DocTableRow({ configuration }, [
 								this._createTitleCell(apiMember),
 								this._createModifiersCell(apiMember),
-								this._createPropertyTypeCell(apiMember),
 								this._createDescriptionCell(apiMember, isInherited),
 							]),
 						);
 					}
 
+					this._writeApiItemPage(apiMember);
+					break;
+				}
+				case ApiItemKind.Property: {
+					if (isListed) {
+						if ((apiMember as ApiPropertyItem).isEventProperty) {
+							eventsTable.addRow(
+								new DocTableRow({ configuration }, [
+									this._createTitleCell(apiMember),
+									this._createModifiersCell(apiMember),
+									this._createPropertyTypeCell(apiMember),
+									this._createDescriptionCell(apiMember, isInherited),
+								]),
+							);
+						} else {
+							propertiesTable.addRow(
+								new DocTableRow({ configuration }, [
+									this._createTitleCell(apiMember),
+									this._createModifiersCell(apiMember),
+									this._createPropertyTypeCell(apiMember),
+									...(showDefaultValues ? [this._createDefaultValueCell(apiMember)] : []),
+									this._createDescriptionCell(apiMember, isInherited),
+								]),
+							);
+						}
+					}
+
 					this._writeApiItemPage(apiMember);
 					break;
 				}
@@ -759,22 +1556,22 @@ export class HugoDocumenter {
 		}
 
 		if (eventsTable.rows.length > 0) {
-			output.appendNode(new DocHeading({ configuration, title: 'Events' }));
+			output.appendNode(new DocHeading({ configuration, title: this._strings.eventsHeading }));
 			output.appendNode(eventsTable);
 		}
 
 		if (constructorsTable.rows.length > 0) {
-			output.appendNode(new DocHeading({ configuration, title: 'Constructors' }));
+			output.appendNode(new DocHeading({ configuration, title: this._strings.constructorsHeading }));
 			output.appendNode(constructorsTable);
 		}
 
 		if (propertiesTable.rows.length > 0) {
-			output.appendNode(new DocHeading({ configuration, title: 'Properties' }));
+			output.appendNode(new DocHeading({ configuration, title: this._strings.propertiesHeading }));
 			output.appendNode(propertiesTable);
 		}
 
 		if (methodsTable.rows.length > 0) {
-			output.appendNode(new DocHeading({ configuration, title: 'Methods' }));
+			output.appendNode(new DocHeading({ configuration, title: this._strings.methodsHeading }));
 			output.appendNode(methodsTable);
 		}
 	}
@@ -787,10 +1584,10 @@ export class HugoDocumenter {
 
 		const enumMembersTable: DocTable = new DocTable({
 			configuration,
-			headerTitles: ['Member', 'Value', 'Description'],
+			headerTitles: [this._strings.memberColumn, this._strings.valueColumn, this._strings.descriptionColumn],
 		});
 
-		for (const apiEnumMember of apiEnum.members) {
+		for (const apiEnumMember of apiEnum.members.filter((x) => this._isIncluded(x))) {
 			enumMembersTable.addRow(
 				new DocTableRow({ configuration }, [
 					new DocTableCell({ configuration }, [
@@ -805,7 +1602,7 @@ export class HugoDocumenter {
 		}
 
 		if (enumMembersTable.rows.length > 0) {
-			output.appendNode(new DocHeading({ configuration, title: 'Enumeration Members' }));
+			output.appendNode(new DocHeading({ configuration, title: this._strings.enumerationMembersHeading }));
 			output.appendNode(enumMembersTable);
 		}
 	}
@@ -816,58 +1613,85 @@ export class HugoDocumenter {
 	private _writeInterfaceTables(output: DocSection, apiInterface: ApiInterface): void {
 		const configuration: TSDocConfiguration = this._tsdocConfiguration;
 
+		const apiMembers: ReadonlyArray<ApiItem> = this._getMembersAndWriteIncompleteWarning(apiInterface, output);
+		const showDefaultValues: boolean = apiMembers.some(
+			(apiMember) =>
+				apiMember instanceof ApiPropertyItem
+				&& this._isListed(apiMember)
+				&& !apiMember.isEventProperty
+				&& this._getDefaultValueBlock(apiMember) !== undefined,
+		);
+
 		const eventsTable: DocTable = new DocTable({
 			configuration,
-			headerTitles: ['Property', 'Modifiers', 'Type', 'Description'],
+			headerTitles: [
+				this._strings.propertyColumn,
+				this._strings.modifiersColumn,
+				this._strings.typeColumn,
+				this._strings.descriptionColumn,
+			],
 		});
 
 		const propertiesTable: DocTable = new DocTable({
 			configuration,
-			headerTitles: ['Property', 'Modifiers', 'Type', 'Description'],
+			headerTitles: [
+				this._strings.propertyColumn,
+				this._strings.modifiersColumn,
+				this._strings.typeColumn,
+				...(showDefaultValues ? [this._strings.defaultColumn] : []),
+				this._strings.descriptionColumn,
+			],
 		});
 
 		const methodsTable: DocTable = new DocTable({
 			configuration,
-			headerTitles: ['Method', 'Description'],
+			headerTitles: [this._strings.methodColumn, this._strings.descriptionColumn],
 		});
 
-		const apiMembers: ReadonlyArray<ApiItem> = this._getMembersAndWriteIncompleteWarning(apiInterface, output);
 		for (const apiMember of apiMembers) {
 			const isInherited: boolean = apiMember.parent !== apiInterface;
+			// Unlisted members are left out of the tables, but their pages are still written so that they can be
+			// reached by a direct link
+			const isListed: boolean = this._isListed(apiMember);
 			switch (apiMember.kind) {
 				case ApiItemKind.ConstructSignature:
 				case ApiItemKind.MethodSignature: {
-					methodsTable.addRow(
-						new DocTableRow({ configuration }, [
-							this._createTitleCell(apiMember),
-							this._createDescriptionCell(apiMember, isInherited),
-						]),
-					);
-
-					this._writeApiItemPage(apiMember);
-					break;
-				}
-				case ApiItemKind.PropertySignature: {
-					if ((apiMember as ApiPropertyItem).isEventProperty) {
-						eventsTable.addRow(
-							new DocTableRow({ configuration }, [
-								this._createTitleCell(apiMember),
-								this._createModifiersCell(apiMember),
-								this._createPropertyTypeCell(apiMember),
-								this._createDescriptionCell(apiMember, isInherited),
-							]),
-						);
-					} else {
-						propertiesTable.addRow(
+					if (isListed) {
+						methodsTable.addRow(
 							new DocTableRow({ configuration }, [
 								this._createTitleCell(apiMember),
-								this._createModifiersCell(apiMember),
-								this._createPropertyTypeCell(apiMember),
 								this._createDescriptionCell(apiMember, isInherited),
 							]),
 						);
 					}
 
+					this._writeApiItemPage(apiMember);
+					break;
+				}
+				case ApiItemKind.PropertySignature: {
+					if (isListed) {
+						if ((apiMember as ApiPropertyItem).isEventProperty) {
+							eventsTable.addRow(
+								new DocTableRow({ configuration }, [
+									this._createTitleCell(apiMember),
+									this._createModifiersCell(apiMember),
+									this._createPropertyTypeCell(apiMember),
+									this._createDescriptionCell(apiMember, isInherited),
+								]),
+							);
+						} else {
+							propertiesTable.addRow(
+								new DocTableRow({ configuration }, [
+									this._createTitleCell(apiMember),
+									this._createModifiersCell(apiMember),
+									this._createPropertyTypeCell(apiMember),
+									...(showDefaultValues ? [this._createDefaultValueCell(apiMember)] : []),
+									this._createDescriptionCell(apiMember, isInherited),
+								]),
+							);
+						}
+					}
+
 					this._writeApiItemPage(apiMember);
 					break;
 				}
@@ -875,17 +1699,17 @@ export class HugoDocumenter {
 		}
 
 		if (eventsTable.rows.length > 0) {
-			output.appendNode(new DocHeading({ configuration, title: 'Events' }));
+			output.appendNode(new DocHeading({ configuration, title: this._strings.eventsHeading }));
 			output.appendNode(eventsTable);
 		}
 
 		if (propertiesTable.rows.length > 0) {
-			output.appendNode(new DocHeading({ configuration, title: 'Properties' }));
+			output.appendNode(new DocHeading({ configuration, title: this._strings.propertiesHeading }));
 			output.appendNode(propertiesTable);
 		}
 
 		if (methodsTable.rows.length > 0) {
-			output.appendNode(new DocHeading({ configuration, title: 'Methods' }));
+			output.appendNode(new DocHeading({ configuration, title: this._strings.methodsHeading }));
 			output.appendNode(methodsTable);
 		}
 	}
@@ -898,7 +1722,7 @@ export class HugoDocumenter {
 
 		const parametersTable: DocTable = new DocTable({
 			configuration,
-			headerTitles: ['Parameter', 'Type', 'Description'],
+			headerTitles: [this._strings.parameterColumn, this._strings.typeColumn, this._strings.descriptionColumn],
 		});
 		for (const apiParameter of apiParameterListMixin.parameters) {
 			const parameterDescription: DocSection = new DocSection({ configuration });
@@ -906,7 +1730,7 @@ export class HugoDocumenter {
 			if (apiParameter.isOptional) {
 				parameterDescription.appendNodesInParagraph([
 					new DocEmphasisSpan({ configuration, italic: true }, [
-						new DocPlainText({ configuration, text: '(Optional)' }),
+						new DocPlainText({ configuration, text: this._strings.optionalLabel }),
 					]),
 					new DocPlainText({ configuration, text: ' ' }),
 				]);
@@ -928,7 +1752,7 @@ export class HugoDocumenter {
 		}
 
 		if (parametersTable.rows.length > 0) {
-			output.appendNode(new DocHeading({ configuration, title: 'Parameters' }));
+			output.appendNode(new DocHeading({ configuration, title: this._strings.parametersHeading }));
 			output.appendNode(parametersTable);
 		}
 
@@ -937,7 +1761,9 @@ export class HugoDocumenter {
 			output.appendNode(new DocParagraph({ configuration }));
 			output.appendNode(
 				new DocParagraph({ configuration }, [
-					new DocEmphasisSpan({ configuration, bold: true }, [new DocPlainText({ configuration, text: 'Returns:' })]),
+					new DocEmphasisSpan({ configuration, bold: true }, [
+						new DocPlainText({ configuration, text: this._strings.returnsLabel }),
+					]),
 				]),
 			);
 
@@ -951,13 +1777,62 @@ export class HugoDocumenter {
 		}
 	}
 
+	/**
+	 * GENERATE PAGE: TYPE PARAMETERS
+	 */
+	private _writeTypeParameterTable(output: DocSection, apiTypeParameterListMixin: ApiTypeParameterListMixin): void {
+		const configuration: TSDocConfiguration = this._tsdocConfiguration;
+
+		const typeParametersTable: DocTable = new DocTable({
+			configuration,
+			headerTitles: [
+				this._strings.parameterColumn,
+				this._strings.constraintColumn,
+				this._strings.defaultColumn,
+				this._strings.descriptionColumn,
+			],
+		});
+		for (const typeParameter of apiTypeParameterListMixin.typeParameters) {
+			const constraintCell: DocTableCell = new DocTableCell({ configuration });
+			if (typeParameter.constraintExcerpt.text.trim()) {
+				constraintCell.content.appendNode(this._createParagraphForTypeExcerpt(typeParameter.constraintExcerpt));
+			}
+
+			const defaultCell: DocTableCell = new DocTableCell({ configuration });
+			if (typeParameter.defaultTypeExcerpt.text.trim()) {
+				defaultCell.content.appendNode(this._createParagraphForTypeExcerpt(typeParameter.defaultTypeExcerpt));
+			}
+
+			const descriptionCell: DocTableCell = new DocTableCell({ configuration });
+			if (typeParameter.tsdocTypeParamBlock) {
+				this._appendAndMergeSection(descriptionCell.content, typeParameter.tsdocTypeParamBlock.content);
+			}
+
+			typeParametersTable.addRow(
+				new DocTableRow({ configuration }, [
+					new DocTableCell({ configuration }, [
+						new DocParagraph({ configuration }, [new DocPlainText({ configuration, text: typeParameter.name })]),
+					]),
+					constraintCell,
+					defaultCell,
+					descriptionCell,
+				]),
+			);
+		}
+
+		if (typeParametersTable.rows.length > 0) {
+			output.appendNode(new DocHeading({ configuration, title: this._strings.typeParametersHeading }));
+			output.appendNode(typeParametersTable);
+		}
+	}
+
 	private _createParagraphForTypeExcerpt(excerpt: Excerpt): DocParagraph {
 		const configuration: TSDocConfiguration = this._tsdocConfiguration;
 
 		const paragraph: DocParagraph = new DocParagraph({ configuration });
 
 		if (!excerpt.text.trim()) {
-			paragraph.appendNode(new DocPlainText({ configuration, text: '(not declared)' }));
+			paragraph.appendNode(new DocPlainText({ configuration, text: this._strings.notDeclaredLabel }));
 		} else {
 			this._appendExcerptWithHyperlinks(paragraph, excerpt);
 		}
@@ -986,13 +1861,16 @@ export class HugoDocumenter {
 				undefined,
 			);
 
-			if (apiItemResult.resolvedApiItem) {
+			const urlDestination: string | undefined = apiItemResult.resolvedApiItem
+				? this._tryGetLinkFilenameForApiItem(apiItemResult.resolvedApiItem)
+				: undefined;
+			if (urlDestination !== undefined) {
 				docNodeContainer.appendNode(
 					new DocLinkTag({
 						configuration,
 						tagName: '@link',
 						linkText: unwrappedTokenText,
-						urlDestination: this._getLinkFilenameForApiItem(apiItemResult.resolvedApiItem),
+						urlDestination,
 					}),
 				);
 				return;
@@ -1035,13 +1913,23 @@ export class HugoDocumenter {
 
 		const section: DocSection = new DocSection({ configuration });
 
+		if (apiItem instanceof ApiDocumentedItem && apiItem.tsdocComment?.deprecatedBlock) {
+			section.appendNodesInParagraph([
+				new DocEmphasisSpan({ configuration, bold: true, italic: true }, [
+					new DocPlainText({ configuration, text: this._strings.deprecatedLabel }),
+				]),
+				new DocPlainText({ configuration, text: ' ' }),
+			]);
+		}
+
 		if (ApiReleaseTagMixin.isBaseClassOf(apiItem)) {
 			if (apiItem.releaseTag === ReleaseTag.Alpha || apiItem.releaseTag === ReleaseTag.Beta) {
 				section.appendNodesInParagraph([
 					new DocEmphasisSpan({ configuration, bold: true, italic: true }, [
 						new DocPlainText({
 							configuration,
-							text: `(${apiItem.releaseTag === ReleaseTag.Alpha ? 'ALPHA' : 'BETA'})`,
+							text:
+								apiItem.releaseTag === ReleaseTag.Alpha ? this._strings.alphaLabel : this._strings.betaLabel,
 						}),
 					]),
 					new DocPlainText({ configuration, text: ' ' }),
@@ -1051,7 +1939,9 @@ export class HugoDocumenter {
 
 		if (ApiOptionalMixin.isBaseClassOf(apiItem) && apiItem.isOptional) {
 			section.appendNodesInParagraph([
-				new DocEmphasisSpan({ configuration, italic: true }, [new DocPlainText({ configuration, text: '(Optional)' })]),
+				new DocEmphasisSpan({ configuration, italic: true }, [
+					new DocPlainText({ configuration, text: this._strings.optionalLabel }),
+				]),
 				new DocPlainText({ configuration, text: ' ' }),
 			]);
 		}
@@ -1062,19 +1952,30 @@ export class HugoDocumenter {
 			}
 		}
 
-		if (isInherited && apiItem.parent) {
-			section.appendNode(
-				new DocParagraph({ configuration }, [
-					new DocPlainText({ configuration, text: '(Inherited from ' }),
-					new DocLinkTag({
-						configuration,
-						tagName: '@link',
-						linkText: apiItem.parent.displayName,
-						urlDestination: this._getLinkFilenameForApiItem(apiItem.parent),
-					}),
-					new DocPlainText({ configuration, text: ')' }),
+		const sourceLink: DocLinkTag | undefined = this._tryCreateSourceLink(apiItem);
+		if (sourceLink !== undefined) {
+			section.appendNodesInParagraph([
+				new DocPlainText({ configuration, text: ' ' }),
+				new DocEmphasisSpan({ configuration, italic: true }, [
+					new DocPlainText({ configuration, text: this._strings.definedInLabel }),
 				]),
-			);
+				sourceLink,
+			]);
+		}
+
+		if (isInherited && apiItem.parent) {
+			// The link to the parent goes where the {link} placeholder is
+			const [textBeforeLink, textAfterLink = ''] = this._strings.inheritedFromLabel.split('{link}');
+			section.appendNodesInParagraph([
+				new DocPlainText({ configuration, text: ` ${textBeforeLink}` }),
+				new DocLinkTag({
+					configuration,
+					tagName: '@link',
+					linkText: apiItem.parent.displayName,
+					urlDestination: this._getLinkFilenameForApiItem(apiItem.parent),
+				}),
+				new DocPlainText({ configuration, text: textAfterLink }),
+			]);
 		}
 
 		return new DocTableCell({ configuration }, section.nodes);
@@ -1087,37 +1988,95 @@ export class HugoDocumenter {
 
 		// Output modifiers in syntactically correct order: first access modifier (here: `protected`), then
 		// `static` or `abstract` (no member can be both, so the order between the two of them does not matter),
-		// last `readonly`. If `override` was supported, it would go directly before `readonly`.
+		// last `readonly`. The TSDoc modifier tags follow, except for any that repeat a keyword.
+		const modifiers: string[] = [];
 
 		if (ApiProtectedMixin.isBaseClassOf(apiItem)) {
 			if (apiItem.isProtected) {
-				section.appendNode(
-					new DocParagraph({ configuration }, [new DocCodeSpan({ configuration, code: 'protected' })]),
-				);
+				modifiers.push('protected');
 			}
 		}
 
 		if (ApiStaticMixin.isBaseClassOf(apiItem)) {
 			if (apiItem.isStatic) {
-				section.appendNode(new DocParagraph({ configuration }, [new DocCodeSpan({ configuration, code: 'static' })]));
+				modifiers.push('static');
 			}
 		}
 
 		if (ApiAbstractMixin.isBaseClassOf(apiItem)) {
 			if (apiItem.isAbstract) {
-				section.appendNode(new DocParagraph({ configuration }, [new DocCodeSpan({ configuration, code: 'abstract' })]));
+				modifiers.push('abstract');
 			}
 		}
 
 		if (ApiReadonlyMixin.isBaseClassOf(apiItem)) {
 			if (apiItem.isReadonly) {
-				section.appendNode(new DocParagraph({ configuration }, [new DocCodeSpan({ configuration, code: 'readonly' })]));
+				modifiers.push('readonly');
+			}
+		}
+
+		for (const modifier of this._getModifierTags(apiItem)) {
+			if (!modifiers.includes(modifier)) {
+				modifiers.push(modifier);
 			}
 		}
 
+		// The modifiers share one paragraph, so that a Markdown table can keep the cell on a single line
+		section.appendNodesInParagraph(
+			modifiers.flatMap((modifier, index) => [
+				...(index > 0 ? [new DocPlainText({ configuration, text: ' ' })] : []),
+				new DocBadge({ configuration, text: modifier }),
+			]),
+		);
+
 		return new DocTableCell({ configuration }, section.nodes);
 	}
 
+	/**
+	 * Returns the TSDoc modifier tags of the item, such as "sealed" or "virtual", without their "@".  Release tags
+	 * are left out, because they have their own warnings.
+	 */
+	private _getModifierTags(apiItem: ApiItem): string[] {
+		if (!(apiItem instanceof ApiDocumentedItem) || !apiItem.tsdocComment) {
+			return [];
+		}
+
+		const excludedTags: Set<string> = new Set(
+			[
+				StandardTags.alpha,
+				StandardTags.beta,
+				StandardTags.internal,
+				StandardTags.packageDocumentation,
+				StandardTags.public,
+			].map((x) => x.tagNameWithUpperCase),
+		);
+
+		return apiItem.tsdocComment.modifierTagSet.nodes
+			.filter((x) => !excludedTags.has(x.tagNameWithUpperCase))
+			.map((x) => x.tagName.replace(/^@/, ''));
+	}
+
+	/**
+	 * Writes the TSDoc modifier tags of the item as a row of badges at the top of its page.
+	 */
+	private _writeModifierBadges(output: DocSection, apiItem: ApiItem): void {
+		const configuration: TSDocConfiguration = this._tsdocConfiguration;
+
+		const modifiers: string[] = this._getModifierTags(apiItem);
+		if (modifiers.length === 0) {
+			return;
+		}
+
+		const paragraph: DocParagraph = new DocParagraph({ configuration });
+		for (const modifier of modifiers) {
+			if (paragraph.nodes.length > 0) {
+				paragraph.appendNode(new DocPlainText({ configuration, text: ' ' }));
+			}
+			paragraph.appendNode(new DocBadge({ configuration, text: modifier }));
+		}
+		output.appendNode(paragraph);
+	}
+
 	private _createPropertyTypeCell(apiItem: ApiItem): DocTableCell {
 		const configuration: TSDocConfiguration = this._tsdocConfiguration;
 
@@ -1130,6 +2089,38 @@ export class HugoDocumenter {
 		return new DocTableCell({ configuration }, section.nodes);
 	}
 
+	private _createDefaultValueCell(apiItem: ApiItem): DocTableCell {
+		const configuration: TSDocConfiguration = this._tsdocConfiguration;
+
+		const section: DocSection = new DocSection({ configuration });
+
+		const defaultValueBlock: DocBlock | undefined = this._getDefaultValueBlock(apiItem);
+		if (defaultValueBlock) {
+			this._appendAndMergeSection(section, defaultValueBlock.content);
+		}
+
+		return new DocTableCell({ configuration }, section.nodes);
+	}
+
+	private _writeDefaultValueSection(output: DocSection, apiItem: ApiItem): void {
+		const configuration: TSDocConfiguration = this._tsdocConfiguration;
+
+		const defaultValueBlock: DocBlock | undefined = this._getDefaultValueBlock(apiItem);
+		if (defaultValueBlock) {
+			output.appendNode(new DocHeading({ configuration, title: this._strings.defaultValueHeading }));
+			this._appendSection(output, defaultValueBlock.content);
+		}
+	}
+
+	private _getDefaultValueBlock(apiItem: ApiItem): DocBlock | undefined {
+		if (apiItem instanceof ApiDocumentedItem) {
+			return apiItem.tsdocComment?.customBlocks.find(
+				(x) => x.blockTag.tagNameWithUpperCase === StandardTags.defaultValue.tagNameWithUpperCase,
+			);
+		}
+		return undefined;
+	}
+
 	private _createInitializerCell(apiItem: ApiItem): DocTableCell {
 		const configuration: TSDocConfiguration = this._tsdocConfiguration;
 
@@ -1151,7 +2142,7 @@ export class HugoDocumenter {
 			new DocLinkTag({
 				configuration,
 				tagName: '@link',
-				linkText: 'Home',
+				linkText: this._strings.breadcrumbHome,
 				urlDestination: this._getLinkFilenameForApiItem(this._apiModel),
 			}),
 		);
@@ -1181,26 +2172,62 @@ export class HugoDocumenter {
 		}
 	}
 
+	private _writeSourceLink(output: DocSection, apiItem: ApiDeclaredItem): void {
+		const configuration: TSDocConfiguration = this._tsdocConfiguration;
+
+		const sourceLink: DocLinkTag | undefined = this._tryCreateSourceLink(apiItem);
+		if (sourceLink !== undefined) {
+			output.appendNode(
+				new DocParagraph({ configuration }, [
+					new DocEmphasisSpan({ configuration, bold: true }, [
+						new DocPlainText({ configuration, text: this._strings.definedInLabel }),
+					]),
+					sourceLink,
+				]),
+			);
+		}
+	}
+
+	/**
+	 * Returns a link to the file that declares the item, or undefined if there is no source URL template or the
+	 * .api.json file doesn't record where the item is declared.
+	 */
+	private _tryCreateSourceLink(apiItem: ApiItem): DocLinkTag | undefined {
+		if (this._sourceUrlTemplate === undefined) {
+			return undefined;
+		}
+
+		// API Extractor only records the path for members that are declared in a different file to their parent
+		for (let current: ApiItem | undefined = apiItem; current instanceof ApiDeclaredItem; current = current.parent) {
+			if (current.fileUrlPath) {
+				return new DocLinkTag({
+					configuration: this._tsdocConfiguration,
+					tagName: '@link',
+					linkText: current.fileUrlPath,
+					urlDestination: Utilities.expandPlaceholders(this._sourceUrlTemplate, {
+						ref: this._sourceRef,
+						path: current.fileUrlPath,
+					}),
+				});
+			}
+		}
+		return undefined;
+	}
+
 	private _writeAlphaWarning(output: DocSection): void {
 		const configuration: TSDocConfiguration = this._tsdocConfiguration;
-		const betaWarning: string
-			= 'This API is provided as an alpha preview for developers and may change'
-			+ ' based on feedback that we receive.  Do not use this API in a production environment.';
 		output.appendNode(
-			new DocNoteBox({ configuration }, [
-				new DocParagraph({ configuration }, [new DocPlainText({ configuration, text: betaWarning })]),
+			new DocNoteBox({ configuration, source: 'alpha' }, [
+				new DocParagraph({ configuration }, [new DocPlainText({ configuration, text: this._strings.alphaWarning })]),
 			]),
 		);
 	}
 
 	private _writeBetaWarning(output: DocSection): void {
 		const configuration: TSDocConfiguration = this._tsdocConfiguration;
-		const betaWarning: string
-			= 'This API is provided as a beta preview for developers and may change'
-			+ ' based on feedback that we receive.  Do not use this API in a production environment.';
 		output.appendNode(
-			new DocNoteBox({ configuration }, [
-				new DocParagraph({ configuration }, [new DocPlainText({ configuration, text: betaWarning })]),
+			new DocNoteBox({ configuration, source: 'beta' }, [
+				new DocParagraph({ configuration }, [new DocPlainText({ configuration, text: this._strings.betaWarning })]),
 			]),
 		);
 	}
@@ -1211,20 +2238,69 @@ export class HugoDocumenter {
 		}
 	}
 
+	/**
+	 * Replaces the `{@link}` tags that refer to declarations in the paragraphs of `docSection` with links to the
+	 * pages of those declarations, or with plain text if they can't be resolved.
+	 */
+	private _resolveCodeLinks(docSection: DocSection, contextApiItem: ApiItem): DocSection {
+		const configuration: TSDocConfiguration = this._tsdocConfiguration;
+
+		const result: DocSection = new DocSection({ configuration });
+		for (const node of docSection.nodes) {
+			if (node.kind !== DocNodeKind.Paragraph) {
+				result.appendNode(node);
+				continue;
+			}
+
+			const paragraph: DocParagraph = new DocParagraph({ configuration });
+			for (const childNode of node.getChildNodes()) {
+				const docLinkTag: DocLinkTag | undefined
+					= childNode.kind === DocNodeKind.LinkTag ? (childNode as DocLinkTag) : undefined;
+				if (!docLinkTag?.codeDestination) {
+					paragraph.appendNode(childNode);
+					continue;
+				}
+
+				const linkText: string = this._getPlainText(docLinkTag, contextApiItem);
+				const resolvedApiItem: ApiItem | undefined = this._apiModel.resolveDeclarationReference(
+					docLinkTag.codeDestination,
+					contextApiItem,
+				).resolvedApiItem;
+				const urlDestination: string | undefined = resolvedApiItem
+					? this._tryGetLinkFilenameForApiItem(resolvedApiItem)
+					: undefined;
+				paragraph.appendNode(
+					urlDestination !== undefined
+						? new DocLinkTag({ configuration, tagName: '@link', linkText, urlDestination })
+						: new DocPlainText({ configuration, text: linkText }),
+				);
+			}
+			result.appendNode(paragraph);
+		}
+		return result;
+	}
+
 	private _appendAndMergeSection(output: DocSection, docSection: DocSection): void {
 		let firstNode: boolean = true;
-		for (const node of docSection.nodes) {
+		docSection.nodes.forEach((node: DocNode, index: number) => {
 			if (firstNode) {
 				if (node.kind === DocNodeKind.Paragraph) {
 					output.appendNodesInParagraph(node.getChildNodes());
 					firstNode = false;
-					continue;
+					return;
 				}
 			}
 			firstNode = false;
 
+			if (node.kind === DocNodeKind.Paragraph && index === docSection.nodes.length - 1) {
+				// Callers may append custom nodes to the last paragraph, which the parser's configuration doesn't
+				// allow, and which must not change the item's own comment
+				output.appendNode(new DocParagraph({ configuration: this._tsdocConfiguration }, node.getChildNodes()));
+				return;
+			}
+
 			output.appendNode(node);
-		}
+		});
 	}
 
 	private _getMembersAndWriteIncompleteWarning(
@@ -1234,7 +2310,7 @@ export class HugoDocumenter {
 		const configuration: TSDocConfiguration = this._tsdocConfiguration;
 		const showInheritedMembers: boolean = Boolean(this._documenterConfig?.configFile.showInheritedMembers);
 		if (!showInheritedMembers) {
-			return apiClassOrInterface.members;
+			return apiClassOrInterface.members.filter((x) => this._isIncluded(x));
 		}
 
 		const result: IFindApiItemsResult = apiClassOrInterface.findMembersWithInheritance();
@@ -1246,7 +2322,7 @@ export class HugoDocumenter {
 					new DocEmphasisSpan({ configuration, italic: true }, [
 						new DocPlainText({
 							configuration,
-							text: '(Some inherited members may not be shown because they are not represented in the documentation.)',
+							text: this._strings.missingInheritedMembersNote,
 						}),
 					]),
 				]),
@@ -1258,7 +2334,46 @@ export class HugoDocumenter {
 			console.log(`Diagnostic message for findMembersWithInheritance: ${message.text}`);
 		}
 
-		return result.items;
+		return result.items.filter((x) => this._isIncluded(x));
+	}
+
+	/**
+	 * Whether the item gets a page and table rows, which requires it and all of its parents to have at least the
+	 * minimum release tag.  Items without a release tag are always included.
+	 */
+	private _isIncluded(apiItem: ApiItem): boolean {
+		if (this._minReleaseTag === ReleaseTag.None) {
+			return true;
+		}
+
+		return apiItem.getHierarchy().every(
+			(hierarchyItem) =>
+				!ApiReleaseTagMixin.isBaseClassOf(hierarchyItem)
+				|| hierarchyItem.releaseTag === ReleaseTag.None
+				|| ReleaseTag.compare(hierarchyItem.releaseTag, this._minReleaseTag) >= 0,
+		);
+	}
+
+	/**
+	 * Returns the link to the item's page, or undefined with a warning if the item is excluded by the minimum
+	 * release tag, in which case the reference is written as plain text.
+	 */
+	private _tryGetLinkFilenameForApiItem(apiItem: ApiItem): string | undefined {
+		if (this._isIncluded(apiItem)) {
+			return this._getLinkFilenameForApiItem(apiItem);
+		}
+
+		const reference: string = apiItem.canonicalReference.toString();
+		if (!this._excludedReferenceWarnings.has(reference)) {
+			this._excludedReferenceWarnings.add(reference);
+			console.log(
+				Colorize.yellow(
+					`WARNING: ${reference} is not linked because it is below the minimum release tag`
+						+ ` "${ReleaseTag.getTagName(this._minReleaseTag)}"`,
+				),
+			);
+		}
+		return undefined;
 	}
 
 	private _getFilenameForApiItem(apiItem: ApiItem): string {
@@ -1305,15 +2420,198 @@ export class HugoDocumenter {
 					baseName += `/${qualifiedName}`;
 			}
 		}
-		return `${baseName}/_index.md`;
+
+		return this._getFilenameForPage(baseName, HugoDocumenter._hasChildPages(apiItem));
+	}
+
+	/**
+	 * Returns the file for a page at `baseName`, according to the page layout.
+	 */
+	private _getFilenameForPage(baseName: string, hasChildPages: boolean): string {
+		if (this._pageLayout === 'branch' || hasChildPages) {
+			return `${baseName}/_index.md`;
+		}
+		return this._pageLayout === 'bundle' ? `${baseName}/index.md` : `${baseName}.md`;
+	}
+
+	/**
+	 * Whether this kind of item has pages of its own beneath it, and so must be written as a Hugo branch bundle.
+	 * Enums don't count, as their members are documented on the enum's page.
+	 */
+	private static _hasChildPages(apiItem: ApiItem): boolean {
+		switch (apiItem.kind) {
+			case ApiItemKind.Model:
+			case ApiItemKind.Package:
+			case ApiItemKind.EntryPoint:
+			case ApiItemKind.Namespace:
+			case ApiItemKind.Class:
+			case ApiItemKind.Interface:
+				return true;
+			default:
+				return false;
+		}
 	}
 
 	private _getLinkFilenameForApiItem(apiItem: ApiItem): string {
 		return `${this._baseUrl}/${this._getFilenameForApiItem(apiItem)}`;
 	}
 
-	private _deleteOldOutputFiles(): void {
-		console.log(`Deleting old output from ${this._outputFolder}`);
-		FileSystem.ensureEmptyFolder(this._outputFolder);
+	/**
+	 * Returns the path of the file to write for the page, which unlike links includes the language suffix.
+	 */
+	private _getPageFilenameForApiItem(apiItem: ApiItem): string {
+		return this._addLanguageSuffix(this._getFilenameForApiItem(apiItem));
+	}
+
+	private _addLanguageSuffix(filename: string): string {
+		if (this._language !== undefined && this._languageLayout === 'suffix') {
+			return filename.replace(/\.md$/, `.${this._language}.md`);
+		}
+		return filename;
+	}
+
+	/**
+	 * Looks up a localized string and fills in its placeholders.
+	 */
+	private _getString(key: keyof IHugoStrings, values: Record<string, string>): string {
+		return Utilities.expandPlaceholders(this._strings[key], values);
+	}
+
+	/**
+	 * Returns "data/api_versions.json" in the Hugo site that the output folder belongs to, so that templates
+	 * can read it as `site.Data.api_versions`, or undefined if the output folder is not inside a "content" folder.
+	 */
+	private _getDefaultVersionsDataFile(outputFolder: string): string | undefined {
+		let folder: string = path.resolve(outputFolder);
+		while (path.basename(folder) !== 'content') {
+			const parentFolder: string = path.dirname(folder);
+			if (parentFolder === folder) {
+				return undefined;
+			}
+			folder = parentFolder;
+		}
+		return path.join(path.dirname(folder), 'data', 'api_versions.json');
+	}
+
+	private _loadVersionsDataFile(versionsDataFile: string): IHugoVersionsDataFile {
+		if (!FileSystem.exists(versionsDataFile)) {
+			return { versions: [] };
+		}
+
+		const dataFile: Partial<IHugoVersionsDataFile> = JsonFile.load(versionsDataFile);
+		if (
+			!Array.isArray(dataFile?.versions)
+			|| !dataFile.versions.every((entry) => typeof entry?.version === 'string' && typeof entry.path === 'string')
+		) {
+			throw new Error(
+				`The versions data file "${versionsDataFile}" is not valid: "versions" must be an array of entries with`
+					+ ' a "version" and a "path". Set "versionsDataFile" to use a different file.',
+			);
+		}
+		return dataFile as IHugoVersionsDataFile;
+	}
+
+	/**
+	 * Adds this version to the versions data file, keeping the entries for every other version.
+	 */
+	private _writeVersionsDataFile(version: string, versionsDataFile: string, dataFile: IHugoVersionsDataFile): void {
+		const entry: IHugoVersionsDataFileEntry = { version, path: `${this._baseUrl}/` };
+		const index: number = dataFile.versions.findIndex((x) => x.version === version);
+		if (index >= 0) {
+			dataFile.versions[index] = entry;
+		} else {
+			dataFile.versions.push(entry);
+		}
+
+		const content: string = JsonFile.stringify(dataFile);
+		if (this._outputChecker) {
+			this._outputChecker.checkFile(versionsDataFile, content);
+			return;
+		}
+
+		if (!FileSystem.exists(versionsDataFile) || FileSystem.readFile(versionsDataFile) !== content) {
+			FileSystem.writeFile(versionsDataFile, content, { ensureFolderExists: true });
+		}
+	}
+
+	/**
+	 * Pages for each language share the output folder when they use suffixes, so each language needs its own manifest.
+	 */
+	private _getManifestFilename(): string {
+		const filename: string
+			= this._language !== undefined && this._languageLayout === 'suffix'
+				? HugoDocumenter.MANIFEST_FILENAME.replace(/\.json$/, `.${this._language}.json`)
+				: HugoDocumenter.MANIFEST_FILENAME;
+		return path.join(this._outputFolder, filename);
+	}
+
+	private _loadManifest(): string[] {
+		const manifestPath: string = this._getManifestFilename();
+		if (!FileSystem.exists(manifestPath)) {
+			return [];
+		}
+
+		const manifest: Partial<IHugoOutputManifest> = JsonFile.load(manifestPath);
+		if (!Array.isArray(manifest?.files) || !manifest.files.every((file) => typeof file === 'string')) {
+			throw new Error(
+				`The output manifest "${manifestPath}" is not valid: "files" must be an array of paths.`
+					+ ' Delete the file to regenerate it; files from earlier runs will then be kept rather than deleted.',
+			);
+		}
+		return manifest.files;
+	}
+
+	private _saveManifest(): void {
+		const manifest: IHugoOutputManifest = {
+			files: [...this._writtenFiles].sort(),
+		};
+		JsonFile.save(manifest, this._getManifestFilename(), {
+			ensureFolderExists: true,
+			onlyIfChanged: true,
+		});
+	}
+
+	/**
+	 * Deletes files that the previous run generated but this run did not.  Files that were not generated by this
+	 * tool, such as hand-written pages, are never touched.
+	 */
+	private _deleteStaleOutputFiles(previousFiles: ReadonlyArray<string>): void {
+		const outputFolder: string = path.resolve(this._outputFolder);
+
+		for (const previousFile of previousFiles) {
+			if (this._writtenFiles.has(previousFile)) {
+				continue;
+			}
+
+			const filename: string = path.resolve(outputFolder, previousFile);
+			if (!filename.startsWith(outputFolder + path.sep)) {
+				// The manifest has been edited to point outside of the output folder
+				continue;
+			}
+
+			if (!FileSystem.exists(filename)) {
+				continue;
+			}
+
+			++this._writeSummary.removed;
+			if (this._outputChecker) {
+				this._outputChecker.checkDeletedFile(filename);
+				continue;
+			}
+
+			console.log(`Deleting old output file ${previousFile}`);
+			FileSystem.deleteFile(filename);
+
+			// Clean up any folders that are now empty, without leaving the output folder
+			let folder: string = path.dirname(filename);
+			while (
+				folder.startsWith(outputFolder + path.sep)
+				&& FileSystem.exists(folder)
+				&& FileSystem.readFolderItemNames(folder).length === 0
+			) {
+				FileSystem.deleteFolder(folder);
+				folder = path.dirname(folder);
+			}
+		}
 	}
 }
@@ -0,0 +1,187 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+/**
+ * The headings, labels and warnings that {@link HugoDocumenter} writes into every page.
+ *
+ * @remarks
+ * The English defaults can be replaced for each language with the `hugo.strings` config setting.
+ * Values written as `{name}` are placeholders that are filled in when the page is generated.
+ */
+export interface IHugoStrings {
+	// Page titles; `{name}` is the item name, scoped within its package
+	modelTitle: string;
+	packageTitle: string;
+	entryPointTitle: string;
+	namespaceTitle: string;
+	classTitle: string;
+	interfaceTitle: string;
+	enumTitle: string;
+	functionTitle: string;
+	methodTitle: string;
+	propertyTitle: string;
+	typeAliasTitle: string;
+	variableTitle: string;
+	deprecatedIndexTitle: string;
+
+	// Warnings and labels
+	deprecatedWarning: string;
+	alphaWarning: string;
+	betaWarning: string;
+	deprecatedLabel: string;
+	alphaLabel: string;
+	betaLabel: string;
+	optionalLabel: string;
+	signatureLabel: string;
+	decoratorsLabel: string;
+	extendsLabel: string;
+	implementsLabel: string;
+	referencesLabel: string;
+	definedInLabel: string;
+	returnsLabel: string;
+	notDeclaredLabel: string;
+	inheritedFromLabel: string;
+	missingInheritedMembersNote: string;
+	breadcrumbHome: string;
+
+	// Section headings
+	remarksHeading: string;
+	exampleHeading: string;
+	numberedExampleHeading: string;
+	exceptionsHeading: string;
+	seeAlsoHeading: string;
+	packagesHeading: string;
+	entryPointsHeading: string;
+	classesHeading: string;
+	abstractClassesHeading: string;
+	enumerationsHeading: string;
+	functionsHeading: string;
+	interfacesHeading: string;
+	namespacesHeading: string;
+	variablesHeading: string;
+	typeAliasesHeading: string;
+	eventsHeading: string;
+	constructorsHeading: string;
+	propertiesHeading: string;
+	methodsHeading: string;
+	enumerationMembersHeading: string;
+	parametersHeading: string;
+	typeParametersHeading: string;
+	defaultValueHeading: string;
+
+	// Table column headers
+	apiColumn: string;
+	packageColumn: string;
+	pathColumn: string;
+	classColumn: string;
+	abstractClassColumn: string;
+	enumerationColumn: string;
+	functionColumn: string;
+	interfaceColumn: string;
+	namespaceColumn: string;
+	variableColumn: string;
+	typeAliasColumn: string;
+	constructorColumn: string;
+	propertyColumn: string;
+	methodColumn: string;
+	memberColumn: string;
+	parameterColumn: string;
+	modifiersColumn: string;
+	typeColumn: string;
+	constraintColumn: string;
+	defaultColumn: string;
+	valueColumn: string;
+	descriptionColumn: string;
+	messageColumn: string;
+}
+
+/**
+ * The English strings, used for anything that the config file does not override.
+ */
+export const defaultHugoStrings: Readonly<IHugoStrings> = {
+	modelTitle: 'API Reference',
+	packageTitle: '{name} package',
+	entryPointTitle: '{name} entrypoint',
+	namespaceTitle: '{name} namespace',
+	classTitle: '{name} class',
+	interfaceTitle: '{name} interface',
+	enumTitle: '{name} enum',
+	functionTitle: '{name} function',
+	methodTitle: '{name} method',
+	propertyTitle: '{name} property',
+	typeAliasTitle: '{name} type',
+	variableTitle: '{name} variable',
+	deprecatedIndexTitle: 'Deprecated APIs',
+
+	deprecatedWarning: 'Warning: This API is now obsolete. ',
+	alphaWarning:
+		'This API is provided as an alpha preview for developers and may change' +
+		' based on feedback that we receive.  Do not use this API in a production environment.',
+	betaWarning:
+		'This API is provided as a beta preview for developers and may change' +
+		' based on feedback that we receive.  Do not use this API in a production environment.',
+	deprecatedLabel: '(DEPRECATED)',
+	alphaLabel: '(ALPHA)',
+	betaLabel: '(BETA)',
+	optionalLabel: '(Optional)',
+	signatureLabel: 'Signature:',
+	decoratorsLabel: 'Decorators:',
+	extendsLabel: 'Extends: ',
+	implementsLabel: 'Implements: ',
+	referencesLabel: 'References: ',
+	definedInLabel: 'Defined in: ',
+	returnsLabel: 'Returns:',
+	notDeclaredLabel: '(not declared)',
+	inheritedFromLabel: '(Inherited from {link})',
+	missingInheritedMembersNote:
+		'(Some inherited members may not be shown because they are not represented in the documentation.)',
+	breadcrumbHome: 'Home',
+
+	remarksHeading: 'Remarks',
+	exampleHeading: 'Example',
+	numberedExampleHeading: 'Example {number}',
+	exceptionsHeading: 'Exceptions',
+	seeAlsoHeading: 'See also',
+	packagesHeading: 'Packages',
+	entryPointsHeading: 'Entrypoints',
+	classesHeading: 'Classes',
+	abstractClassesHeading: 'Abstract Classes',
+	enumerationsHeading: 'Enumerations',
+	functionsHeading: 'Functions',
+	interfacesHeading: 'Interfaces',
+	namespacesHeading: 'Namespaces',
+	variablesHeading: 'Variables',
+	typeAliasesHeading: 'Type Aliases',
+	eventsHeading: 'Events',
+	constructorsHeading: 'Constructors',
+	propertiesHeading: 'Properties',
+	methodsHeading: 'Methods',
+	enumerationMembersHeading: 'Enumeration Members',
+	parametersHeading: 'Parameters',
+	typeParametersHeading: 'Type Parameters',
+	defaultValueHeading: 'Default',
+
+	apiColumn: 'API',
+	packageColumn: 'Package',
+	pathColumn: 'Path',
+	classColumn: 'Class',
+	abstractClassColumn: 'Abstract Class',
+	enumerationColumn: 'Enumeration',
+	functionColumn: 'Function',
+	interfaceColumn: 'Interface',
+	namespaceColumn: 'Namespace',
+	variableColumn: 'Variable',
+	typeAliasColumn: 'Type Alias',
+	constructorColumn: 'Constructor',
+	propertyColumn: 'Property',
+	methodColumn: 'Method',
+	memberColumn: 'Member',
+	parameterColumn: 'Parameter',
+	modifiersColumn: 'Modifiers',
+	typeColumn: 'Type',
+	constraintColumn: 'Constraint',
+	defaultColumn: 'Default',
+	valueColumn: 'Value',
+	descriptionColumn: 'Description',
+	messageColumn: 'Message',
+};
@@ -2,6 +2,20 @@
 // See LICENSE in the project root for license information.
 
 import type { IYamlTocFile } from '../yaml/IYamlTocFile.js';
+import type {
+	HugoBlockTagPlacement,
+	HugoBlockTagRendering,
+	HugoLanguageLayout,
+	HugoPageLayout,
+	HugoReleaseTagName,
+} from './HugoDocumenter.js';
+import type { IHugoStrings } from './HugoStrings.js';
+import type {
+	HugoBadgeStyle,
+	HugoLinkStyle,
+	HugoNoteBoxStyle,
+	HugoTableStyle,
+} from '../markdown/HugoMarkdownEmitter.js';
 
 /**
  * Typescript interface describing the config schema for toc.yml file format.
@@ -68,6 +82,306 @@ export interface IConfigPlugin {
 	enabledFeatureNames: string[];
 }
 
+/**
+ * Describes how the Hugo output target renders a custom TSDoc block tag such as `@since`.
+ */
+export interface IConfigHugoBlockTag {
+	/**
+	 * "section" writes the block under its own heading, "noteBox" writes it in a note box, and "frontMatter" copies
+	 * its text into a front matter field instead of the page body.
+	 *
+	 * @remarks
+	 * The default value is "section".
+	 */
+	renderAs?: HugoBlockTagRendering;
+
+	/**
+	 * The heading of the section, or the bold label at the start of the note box.
+	 *
+	 * @remarks
+	 * The default value is the tag name without its "@", with the first letter capitalized.
+	 */
+	heading?: string;
+
+	/**
+	 * Where the section or note box appears on the page: "beforeSummary", "afterSummary", "afterRemarks", which
+	 * follows the examples and "See also" list, or "end".
+	 *
+	 * @remarks
+	 * The default value is "afterRemarks".  It is ignored when {@link IConfigHugoBlockTag.renderAs} is "frontMatter".
+	 */
+	placement?: HugoBlockTagPlacement;
+
+	/**
+	 * The front matter field written when {@link IConfigHugoBlockTag.renderAs} is "frontMatter".  A tag that
+	 * appears more than once produces a list.
+	 *
+	 * @remarks
+	 * The default value is the tag name without its "@".
+	 */
+	frontMatterKey?: string;
+}
+
+/**
+ * Configures the Hugo output target.
+ *
+ * @remarks
+ * These settings apply to both the "hugo" output target and the `hugo` command-line action.
+ */
+export interface IConfigHugo {
+	/**
+	 * The path inside the Hugo content folder where the output folder is mounted, for example "/reference/api".
+	 *
+	 * @remarks
+	 * This is used as the prefix for every `ref` link that is generated, including breadcrumbs and the links
+	 * returned to plugins.  It is equivalent to the `--base-url` command-line parameter.
+	 *
+	 * The default value is "/docs".
+	 */
+	baseUrl?: string;
+
+	/**
+	 * Specifies how pages for API items without pages of their own beneath them, such as members, functions,
+	 * variables, type aliases and enums, are written.
+	 *
+	 * @remarks
+	 * "branch" writes them as `<name>/_index.md` like every other page.  "leaf" writes them as `<name>.md` and
+	 * "bundle" writes them as `<name>/index.md`.  Packages, namespaces, classes and interfaces are always written
+	 * as `_index.md`.  It is equivalent to the `--page-layout` command-line parameter.
+	 *
+	 * The default value is "branch".
+	 */
+	pageLayout?: HugoPageLayout;
+
+	/**
+	 * Front matter to add to generated pages, keyed by `ApiItemKind` such as "Class", "Method" or "Package".
+	 *
+	 * @remarks
+	 * Entries under the "*" key are added to every page.  Configured values are merged over the generated
+	 * front matter, so they can also replace the default `title`.
+	 *
+	 * String values may contain the following placeholders: `{displayName}`, `{scopedName}`, `{packageName}`,
+	 * `{unscopedPackageName}`, `{kind}`, `{releaseTag}`, `{summary}` and `{version}`.
+	 */
+	frontMatter?: Record<string, Record<string, unknown>>;
+
+	/**
+	 * Front matter to add to the pages of items with each release tag, such as `{ "draft": true }` or
+	 * `{ "build": { "list": "never" } }`, keyed by "internal", "alpha", "beta" or "public".
+	 *
+	 * @remarks
+	 * It is merged over {@link IConfigHugo.frontMatter} and accepts the same placeholders.  Items whose pages are
+	 * drafts, or have `build.list` or `build.render` set to "never", are left out of the package and namespace
+	 * tables, so that they can only be reached by a direct link.
+	 */
+	releaseTagFrontMatter?: Partial<Record<HugoReleaseTagName, Record<string, unknown>>>;
+
+	/**
+	 * Specifies whether the `description` and `summary` front matter should be filled in from each item's TSDoc
+	 * summary, rendered as plain text.
+	 *
+	 * @remarks
+	 * Values configured with {@link IConfigHugo.frontMatter} take precedence.  The default value is true.
+	 */
+	autoDescription?: boolean;
+
+	/**
+	 * The maximum length of the generated `description` front matter.  Longer summaries are truncated at the end
+	 * of the last sentence that fits.
+	 *
+	 * @remarks
+	 * The default value is 160.
+	 */
+	descriptionMaxLength?: number;
+
+	/**
+	 * A version label such as "v2" or "main".  When this is set, the documentation is written to a subfolder of
+	 * the output folder named after the version, and every generated link includes the version.
+	 *
+	 * @remarks
+	 * This makes it possible to publish the documentation for several releases side by side.  Generating one
+	 * version never changes the files of any other version.  It is equivalent to the `--doc-version` command-line
+	 * parameter.
+	 */
+	version?: string;
+
+	/**
+	 * The path of the JSON file that lists every generated version, for use by a theme's version switcher.
+	 * It is only written when {@link IConfigHugo.version} is set, and is updated rather than replaced.
+	 *
+	 * @remarks
+	 * The default is "data/api_versions.json" in the Hugo site, found by looking for the "content" folder that
+	 * contains the output folder, which makes the list available to templates as `site.Data.api_versions`.
+	 * It must be set if the output folder is not inside a "content" folder.
+	 */
+	versionsDataFile?: string;
+
+	/**
+	 * The code of the language to generate, such as "ja", matching a language in the Hugo site's config.
+	 * When this is set, the strings configured for the language are used and the pages are stored as
+	 * described by {@link IConfigHugo.languageLayout}.
+	 *
+	 * @remarks
+	 * Leave this unset for the site's default content language.  It is equivalent to the `--language`
+	 * command-line parameter.
+	 */
+	language?: string;
+
+	/**
+	 * How the pages for {@link IConfigHugo.language} are stored.  "suffix" adds the language to each filename,
+	 * for example `_index.ja.md`.  "folder" writes the pages to a subfolder of the output folder named after the
+	 * language, for use with a separate content folder or module mount for each language.
+	 *
+	 * @remarks
+	 * The default value is "suffix".
+	 */
+	languageLayout?: HugoLanguageLayout;
+
+	/**
+	 * Replaces the headings, labels and warnings written into each page, keyed by language code.
+	 *
+	 * @remarks
+	 * Entries under the "*" key apply to every language, including the default language.  Any string that is
+	 * not configured keeps its English default.  See {@link IHugoStrings} for the available keys.
+	 */
+	strings?: Record<string, Partial<IHugoStrings>>;
+
+	/**
+	 * How note boxes, such as the deprecation, alpha and beta warnings, are written.  "blockquote" writes a plain
+	 * blockquote.  "alert" writes a blockquote alert such as `> [!WARNING]`.  "shortcode" wraps the box in the
+	 * shortcode given by {@link IConfigHugo.noteBoxShortcode}.
+	 *
+	 * @remarks
+	 * The default value is "blockquote".
+	 */
+	noteBoxStyle?: HugoNoteBoxStyle;
+
+	/**
+	 * The shortcode used when {@link IConfigHugo.noteBoxStyle} is "shortcode", with its parameters but without
+	 * the delimiters.  The `{severity}` placeholder is replaced with the severity of the box.
+	 *
+	 * @remarks
+	 * The default value is `alert color="{severity}"`.
+	 */
+	noteBoxShortcode?: string;
+
+	/**
+	 * Maps what produced each note box to its severity.  The keys are "deprecated", "alpha", "beta" and "custom",
+	 * where "custom" is used for any other note box.  A block tag rendered as a note box uses its tag name without
+	 * the "@", such as "security", and falls back to "custom".
+	 *
+	 * @remarks
+	 * The defaults are "caution", "warning", "important" and "note" respectively, matching the blockquote alert
+	 * types.  With the "shortcode" note box style they are "danger", "warning", "primary" and "info" instead,
+	 * which Docsy's `alert` shortcode accepts as colors.  Configured values are merged over the defaults.
+	 */
+	noteBoxSeverities?: Record<string, string>;
+
+	/**
+	 * How tables are written.  "html" writes an HTML table, which requires Goldmark's `unsafe` renderer option.
+	 * "markdown" writes a pipe table, falling back to HTML for any table with a cell that contains block content.
+	 * "shortcode" passes the header and rows as YAML to the shortcode named by {@link IConfigHugo.tableShortcode}.
+	 *
+	 * @remarks
+	 * The default value is "html".
+	 */
+	tableStyle?: HugoTableStyle;
+
+	/**
+	 * The name of the shortcode used when {@link IConfigHugo.tableStyle} is "shortcode".
+	 *
+	 * @remarks
+	 * The default value is "api-table".
+	 */
+	tableShortcode?: string;
+
+	/**
+	 * How links between generated pages are written, including the links in signatures and tables.  "ref" and
+	 * "relref" use Hugo's shortcodes of the same name.  "relative" writes the path of the target file relative
+	 * to the current file.  "absolute" writes the URL of the target page, prefixed with {@link IConfigHugo.siteUrl}.
+	 *
+	 * @remarks
+	 * With "ref" and "relref", a single missing target fails the whole Hugo build.  The other styles don't depend
+	 * on shortcodes, so the Markdown is also readable outside Hugo.  The default value is "ref".
+	 */
+	linkStyle?: HugoLinkStyle;
+
+	/**
+	 * The URL of the site, such as "https://example.com", used when {@link IConfigHugo.linkStyle} is "absolute".
+	 *
+	 * @remarks
+	 * If this is not set, the links start with the base URL, for example "/docs/my-package/".
+	 */
+	siteUrl?: string;
+
+	/**
+	 * How the modifiers of an item, such as `static` or the TSDoc `@sealed` tag, are written in the Modifiers column
+	 * and at the top of its page.  "code" writes inline code, "shortcode" calls the shortcode named by
+	 * {@link IConfigHugo.badgeShortcode} with the modifier as its parameter, and "html" writes a `<span>` with the
+	 * classes `api-badge` and `api-badge-<modifier>`.
+	 *
+	 * @remarks
+	 * The default value is "code".
+	 */
+	badgeStyle?: HugoBadgeStyle;
+
+	/**
+	 * The name of the shortcode used when {@link IConfigHugo.badgeStyle} is "shortcode".
+	 *
+	 * @remarks
+	 * The default value is "api-badge".
+	 */
+	badgeShortcode?: string;
+
+	/**
+	 * The URL of a declaration's source file, such as `https://github.com/org/repo/blob/{ref}/{path}`.  When this is
+	 * set, the page and table row of each declared item link to the file that declares it.
+	 *
+	 * @remarks
+	 * `{path}` is replaced with the path that API Extractor recorded in the .api.json file, which requires its
+	 * `projectFolderUrl` setting, and `{ref}` with {@link IConfigHugo.sourceRef}.  Items without a recorded path
+	 * get no link.
+	 */
+	sourceUrlTemplate?: string;
+
+	/**
+	 * The branch, tag or commit used for the `{ref}` placeholder in {@link IConfigHugo.sourceUrlTemplate}.
+	 *
+	 * @remarks
+	 * It is equivalent to the `--source-ref` command-line parameter.  The default value is "main".
+	 */
+	sourceRef?: string;
+
+	/**
+	 * The lowest release tag that is documented: "internal", "alpha", "beta" or "public".  Items with a lower
+	 * release tag, and the members of such items, get no page and are left out of every table and index.
+	 *
+	 * @remarks
+	 * References to excluded items are written as plain text, with a warning.  It is equivalent to the
+	 * `--min-release-tag` command-line parameter.  By default every item is documented.
+	 */
+	minReleaseTag?: HugoReleaseTagName;
+
+	/**
+	 * The name of the page that lists every deprecated API across all packages with its deprecation message, or
+	 * `false` to skip the page.  The page is written next to the package folders, and the model page links to it.
+	 *
+	 * @remarks
+	 * The default value is "deprecated".  The page is only written when at least one API is deprecated.
+	 */
+	deprecatedIndex?: string | false;
+
+	/**
+	 * Rules for rendering custom TSDoc block tags, keyed by tag name, such as `"@since"`.
+	 *
+	 * @remarks
+	 * A block tag is only parsed as a block if it is defined in the project's tsdoc.json file when API Extractor runs,
+	 * because API Extractor copies that configuration into the .api.json file.  Undefined tags stay in the text of
+	 * the preceding block, and a warning is printed for each configured tag that is not defined.
+	 */
+	blockTags?: Record<string, IConfigHugoBlockTag>;
+}
+
 /**
  * This interface represents the api-documenter.json file format.
  */
@@ -75,7 +389,17 @@ export interface IConfigFile {
 	/**
 	 * Specifies the output target.
 	 */
-	outputTarget: 'docfx' | 'markdown';
+	outputTarget: 'docfx' | 'markdown' | 'hugo';
+
+	/**
+	 * Folders containing the *.api.json files to be processed, relative to the current folder.
+	 *
+	 * @remarks
+	 * Glob patterns are supported, for example to read the temp folder of every package in a monorepo, and may
+	 * also match *.api.json files directly.
+	 * This is ignored if the `--input-folder` command-line parameter is specified.
+	 */
+	inputs?: string[];
 
 	/**
 	 * Specifies what type of newlines API Documenter should use when writing output files.
@@ -108,4 +432,7 @@ export interface IConfigFile {
 	 * Specifies whether inherited members should also be shown on an API item's page.
 	 */
 	showInheritedMembers?: boolean;
+
+	/** {@inheritDoc IConfigHugo} */
+	hugo?: IConfigHugo;
 }
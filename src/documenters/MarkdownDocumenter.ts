@@ -2,7 +2,7 @@
 // See LICENSE in the project root for license information.
 
 import * as path from 'path';
-import { FileSystem, NewlineKind, PackageName } from '@rushstack/node-core-library';
+import { FileSystem, NewlineKind, PackageName, Text } from '@rushstack/node-core-library';
 import {
 	type DocBlock,
 	DocCodeSpan,
@@ -64,11 +64,17 @@ import {
 } from '../plugin/MarkdownDocumenterFeature.js';
 import type { DocumenterConfig } from './DocumenterConfig.js';
 import { MarkdownDocumenterAccessor } from '../plugin/MarkdownDocumenterAccessor.js';
+import type { OutputChecker } from '../utils/OutputChecker.js';
 
 export interface IMarkdownDocumenterOptions {
 	apiModel: ApiModel;
 	documenterConfig: DocumenterConfig | undefined;
 	outputFolder: string;
+
+	/**
+	 * If provided, files are compared with the output folder using this checker instead of being written.
+	 */
+	outputChecker?: OutputChecker;
 }
 
 /**
@@ -82,11 +88,14 @@ export class MarkdownDocumenter {
 	private readonly _markdownEmitter: CustomMarkdownEmitter;
 	private readonly _outputFolder: string;
 	private readonly _pluginLoader: PluginLoader;
+	private readonly _outputChecker: OutputChecker | undefined;
+	private readonly _writtenFiles: Set<string> = new Set();
 
 	public constructor(options: IMarkdownDocumenterOptions) {
 		this._apiModel = options.apiModel;
 		this._documenterConfig = options.documenterConfig;
 		this._outputFolder = options.outputFolder;
+		this._outputChecker = options.outputChecker;
 		this._tsdocConfiguration = CustomDocNodes.configuration;
 		this._markdownEmitter = new CustomMarkdownEmitter(this._apiModel);
 
@@ -109,10 +118,17 @@ export class MarkdownDocumenter {
 		}
 
 		console.log();
-		this._deleteOldOutputFiles();
+		if (!this._outputChecker) {
+			this._deleteOldOutputFiles();
+		}
 
 		this._writeApiItemPage(this._apiModel);
 
+		if (this._outputChecker) {
+			// A real run starts by emptying the output folder
+			this._outputChecker.checkUnexpectedFiles(this._writtenFiles);
+		}
+
 		if (this._pluginLoader.markdownDocumenterFeature) {
 			this._pluginLoader.markdownDocumenterFeature.onFinished({});
 		}
@@ -322,8 +338,15 @@ export class MarkdownDocumenter {
 			pageContent = eventArgs.pageContent;
 		}
 
+		const newlineKind: NewlineKind = this._documenterConfig ? this._documenterConfig.newlineKind : NewlineKind.CrLf;
+		this._writtenFiles.add(filename);
+		if (this._outputChecker) {
+			this._outputChecker.checkFile(filename, Text.convertTo(pageContent, newlineKind));
+			return;
+		}
+
 		FileSystem.writeFile(filename, pageContent, {
-			convertLineEndings: this._documenterConfig ? this._documenterConfig.newlineKind : NewlineKind.CrLf,
+			convertLineEndings: newlineKind,
 		});
 	}
 
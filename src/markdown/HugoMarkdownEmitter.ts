@@ -1,33 +1,180 @@
 // Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
 // See LICENSE in the project root for license information.
 
-import type { DocLinkTag, DocNode, StringBuilder } from '@microsoft/tsdoc';
+import * as path from 'path';
+import {
+	type DocCodeSpan,
+	type DocFencedCode,
+	type DocLinkTag,
+	type DocNode,
+	DocNodeKind,
+	type StringBuilder,
+} from '@microsoft/tsdoc';
 import type { ApiItem, ApiModel, IResolveDeclarationReferenceResult } from '@microsoft/api-extractor-model';
 import { Colorize } from '@rushstack/terminal';
 import yaml from 'js-yaml';
 
 import { CustomDocNodeKind } from '../nodes/CustomDocNodeKind.js';
+import type { DocBadge } from '../nodes/DocBadge.js';
 import type { DocHeading } from '../nodes/DocHeading.js';
 import type { DocNoteBox } from '../nodes/DocNoteBox.js';
 import type { DocTable } from '../nodes/DocTable.js';
 import type { DocTableCell } from '../nodes/DocTableCell.js';
+import type { DocTableRow } from '../nodes/DocTableRow.js';
 import type { DocEmphasisSpan } from '../nodes/DocEmphasisSpan.js';
 import { type IMarkdownEmitterContext, type IMarkdownEmitterOptions, MarkdownEmitter } from './MarkdownEmitter.js';
-import type { IndentedWriter } from '../utils/IndentedWriter.js';
+import { IndentedWriter } from '../utils/IndentedWriter.js';
+import { Utilities } from '../utils/Utilities.js';
 
 export interface ICustomMarkdownEmitterOptions extends IMarkdownEmitterOptions {
 	contextApiItem: ApiItem | undefined;
 
+	/**
+	 * The content path of the page being written, which the `relative` link style computes links from.
+	 */
+	pageFilename?: string;
+
 	onGetFilenameForApiItem: (apiItem: ApiItem) => string | undefined;
 }
 
+/**
+ * How note boxes, such as the deprecation, alpha and beta warnings, are written.
+ *
+ * @remarks
+ * - `blockquote` writes a plain `> ` blockquote.
+ * - `alert` writes a blockquote alert such as `> [!WARNING]`, which GitHub and Hugo's blockquote render hooks
+ *   understand.
+ * - `shortcode` wraps the box in a shortcode, such as `{{% alert color="warning" %}}`.
+ */
+export type HugoNoteBoxStyle = 'blockquote' | 'alert' | 'shortcode';
+
+/**
+ * How tables, such as the lists of members on each page, are written.
+ *
+ * @remarks
+ * - `html` writes an HTML `<table>`, which requires Goldmark's `unsafe` renderer option.
+ * - `markdown` writes a GitHub Flavored Markdown pipe table, unless a cell contains block content such as
+ *   several paragraphs or a code block, in which case that table is written as HTML.
+ * - `shortcode` passes the header and rows to a shortcode as YAML, so that the theme can render them.
+ */
+export type HugoTableStyle = 'html' | 'markdown' | 'shortcode';
+
+/**
+ * How links between generated pages are written.
+ *
+ * @remarks
+ * - `ref` and `relref` use Hugo's shortcodes of the same name, which fail the build if the target is missing.
+ * - `relative` writes the path of the target file relative to the current file, which also works outside Hugo.
+ * - `absolute` writes the URL of the target page, prefixed with the site URL if one is configured.
+ */
+export type HugoLinkStyle = 'ref' | 'relref' | 'relative' | 'absolute';
+
+/**
+ * How badges, such as the modifiers of an API item, are written.
+ *
+ * @remarks
+ * - `code` writes an inline code span.
+ * - `shortcode` calls a shortcode with the badge text as its only parameter.
+ * - `html` writes a `<span>` with the classes `api-badge` and `api-badge-<text>`, which requires Goldmark's
+ *   `unsafe` renderer option.
+ */
+export type HugoBadgeStyle = 'code' | 'shortcode' | 'html';
+
+export interface IHugoMarkdownEmitterParameters {
+	/**
+	 * The default is "blockquote".
+	 */
+	noteBoxStyle?: HugoNoteBoxStyle;
+
+	/**
+	 * The shortcode used by the "shortcode" note box style, with its parameters.  `{severity}` is replaced
+	 * with the severity of the box.  The default is `alert color="{severity}"`.
+	 */
+	noteBoxShortcode?: string;
+
+	/**
+	 * Maps the source of each note box, such as "deprecated", to its severity.  Merged over the defaults, which
+	 * depend on the note box style.
+	 */
+	noteBoxSeverities?: Record<string, string>;
+
+	/**
+	 * The default is "html".
+	 */
+	tableStyle?: HugoTableStyle;
+
+	/**
+	 * The name of the shortcode used by the "shortcode" table style.  The default is "api-table".
+	 */
+	tableShortcode?: string;
+
+	/**
+	 * The default is "ref".
+	 */
+	linkStyle?: HugoLinkStyle;
+
+	/**
+	 * The URL of the site, such as "https://example.com", used by the "absolute" link style.
+	 */
+	siteUrl?: string;
+
+	/**
+	 * The default is "code".
+	 */
+	badgeStyle?: HugoBadgeStyle;
+
+	/**
+	 * The name of the shortcode used by the "shortcode" badge style.  The default is "api-badge".
+	 */
+	badgeShortcode?: string;
+}
+
+// A complete shortcode, from its opening delimiter to the closing delimiter of the same kind
+const SHORTCODE_REGEXP: RegExp = /\{\{(?:<([\s\S]*?)>|%([\s\S]*?)%)\}\}/g;
+
+const DEFAULT_NOTE_BOX_SEVERITIES: Readonly<Record<string, string>> = {
+	deprecated: 'caution',
+	alpha: 'warning',
+	beta: 'important',
+	custom: 'note',
+};
+
+// The same severities as Bootstrap colors, which is what Docsy's alert shortcode accepts
+const DEFAULT_SHORTCODE_NOTE_BOX_SEVERITIES: Readonly<Record<string, string>> = {
+	deprecated: 'danger',
+	alpha: 'warning',
+	beta: 'primary',
+	custom: 'info',
+};
+
 export class HugoMarkdownEmitter extends MarkdownEmitter {
 	private readonly _apiModel: ApiModel;
+	private readonly _noteBoxStyle: HugoNoteBoxStyle;
+	private readonly _noteBoxShortcode: string;
+	private readonly _noteBoxSeverities: Readonly<Record<string, string>>;
+	private readonly _tableStyle: HugoTableStyle;
+	private readonly _tableShortcode: string;
+	private readonly _linkStyle: HugoLinkStyle;
+	private readonly _siteUrl: string;
+	private readonly _badgeStyle: HugoBadgeStyle;
+	private readonly _badgeShortcode: string;
 
-	public constructor(apiModel: ApiModel) {
+	public constructor(apiModel: ApiModel, parameters: IHugoMarkdownEmitterParameters = {}) {
 		super();
 
 		this._apiModel = apiModel;
+		this._noteBoxStyle = parameters.noteBoxStyle ?? 'blockquote';
+		this._noteBoxShortcode = parameters.noteBoxShortcode ?? 'alert color="{severity}"';
+		this._noteBoxSeverities = {
+			...(this._noteBoxStyle === 'shortcode' ? DEFAULT_SHORTCODE_NOTE_BOX_SEVERITIES : DEFAULT_NOTE_BOX_SEVERITIES),
+			...parameters.noteBoxSeverities,
+		};
+		this._tableStyle = parameters.tableStyle ?? 'html';
+		this._tableShortcode = parameters.tableShortcode ?? 'api-table';
+		this._linkStyle = parameters.linkStyle ?? 'ref';
+		this._siteUrl = (parameters.siteUrl ?? '').replace(/\/+$/, '');
+		this._badgeStyle = parameters.badgeStyle ?? 'code';
+		this._badgeShortcode = parameters.badgeShortcode ?? 'api-badge';
 	}
 
 	public emitWithFrontMatter(
@@ -44,6 +191,30 @@ export class HugoMarkdownEmitter extends MarkdownEmitter {
 		return super.emit(stringBuilder, docNode, options);
 	}
 
+	/**
+	 * Hugo executes shortcodes even inside code, so any shortcode in the code is turned into a shortcode comment
+	 * by adding comment markers just inside its delimiters.  Hugo writes such a comment as the original text.
+	 *
+	 * @override
+	 */
+	protected getCodeText(code: string): string {
+		return code.replace(SHORTCODE_REGEXP, (match: string, angleContent: string | undefined, percentContent: string) =>
+			angleContent !== undefined ? `{{</*${angleContent}*/>}}` : `{{%/*${percentContent}*/%}}`,
+		);
+	}
+
+	/**
+	 * Whether the code has an opening shortcode delimiter without a closing one, which a shortcode comment can't
+	 * hide.  Such code is written as HTML instead, where the braces can be written as character references.
+	 */
+	private static _hasUnterminatedShortcode(code: string): boolean {
+		return /\{\{[<%]/.test(code.replace(SHORTCODE_REGEXP, ''));
+	}
+
+	private _getHtmlCodeText(code: string): string {
+		return this.getTableEscapedText(code).replace(/\{/g, '&#123;');
+	}
+
 	/** @override */
 	protected writeNode(docNode: DocNode, context: IMarkdownEmitterContext, docNodeSiblings: boolean): void {
 		const writer: IndentedWriter = context.writer;
@@ -73,74 +244,39 @@ export class HugoMarkdownEmitter extends MarkdownEmitter {
 				break;
 			}
 			case CustomDocNodeKind.NoteBox: {
-				const docNoteBox: DocNoteBox = docNode as DocNoteBox;
-				writer.ensureNewLine();
-
-				writer.increaseIndent('> ');
-
-				this.writeNode(docNoteBox.content, context, false);
-				writer.ensureNewLine();
-
-				writer.decreaseIndent();
-
-				writer.writeLine();
+				this._writeNoteBox(docNode as DocNoteBox, context);
 				break;
 			}
 			case CustomDocNodeKind.Table: {
-				const docTable: DocTable = docNode as DocTable;
-				// GitHub's markdown renderer chokes on tables that don't have a blank line above them,
-				// whereas VS Code's renderer is totally fine with it.
-				writer.ensureSkippedLine();
-
-				// Markdown table rows can have inconsistent cell counts.  Size the table based on the longest row.
-				let columnCount: number = 0;
-				if (docTable.header) {
-					columnCount = docTable.header.cells.length;
-				}
-				for (const row of docTable.rows) {
-					if (row.cells.length > columnCount) {
-						columnCount = row.cells.length;
-					}
-				}
-
-				writer.write('<table>');
-				if (docTable.header) {
-					writer.write('<thead><tr>');
-					for (let i: number = 0; i < columnCount; ++i) {
-						writer.write('<th>');
-						writer.ensureNewLine();
-						writer.writeLine();
-						const cell: DocTableCell | undefined = docTable.header.cells[i];
-						if (cell) {
-							this.writeNode(cell.content, context, false);
-						}
-						writer.ensureNewLine();
-						writer.writeLine();
-						writer.write('</th>');
-					}
-					writer.write('</tr></thead>');
+				this._writeTable(docNode as DocTable, context);
+				break;
+			}
+			case CustomDocNodeKind.Badge: {
+				this._writeBadge(docNode as DocBadge, context);
+				break;
+			}
+			case DocNodeKind.CodeSpan: {
+				const docCodeSpan: DocCodeSpan = docNode as DocCodeSpan;
+				if (HugoMarkdownEmitter._hasUnterminatedShortcode(docCodeSpan.code)) {
+					writer.write(`<code>${this._getHtmlCodeText(docCodeSpan.code)}</code>`);
+				} else {
+					super.writeNode(docNode, context, docNodeSiblings);
 				}
-				writer.writeLine();
-
-				writer.write('<tbody>');
-				for (const row of docTable.rows) {
-					writer.write('<tr>');
-					for (const cell of row.cells) {
-						writer.write('<td>');
-						writer.ensureNewLine();
-						writer.writeLine();
-						this.writeNode(cell.content, context, false);
-						writer.ensureNewLine();
-						writer.writeLine();
-						writer.write('</td>');
-					}
-					writer.write('</tr>');
-					writer.writeLine();
+				break;
+			}
+			case DocNodeKind.FencedCode: {
+				const docFencedCode: DocFencedCode = docNode as DocFencedCode;
+				if (HugoMarkdownEmitter._hasUnterminatedShortcode(docFencedCode.code)) {
+					const language: string = docFencedCode.language.trim();
+					writer.ensureNewLine();
+					writer.write(
+						language !== '' ? `<pre><code class="language-${this.getTableEscapedText(language)}">` : '<pre><code>',
+					);
+					writer.write(this._getHtmlCodeText(docFencedCode.code));
+					writer.writeLine('</code></pre>');
+				} else {
+					super.writeNode(docNode, context, docNodeSiblings);
 				}
-				writer.write('</tbody>');
-				writer.write('</table>');
-				writer.writeLine();
-
 				break;
 			}
 			case CustomDocNodeKind.EmphasisSpan: {
@@ -159,6 +295,208 @@ export class HugoMarkdownEmitter extends MarkdownEmitter {
 		}
 	}
 
+	private _writeBadge(docBadge: DocBadge, context: IMarkdownEmitterContext): void {
+		const writer: IndentedWriter = context.writer;
+
+		switch (this._badgeStyle) {
+			case 'shortcode':
+				writer.write(`{{< ${this._badgeShortcode} ${JSON.stringify(docBadge.text)} >}}`);
+				break;
+			case 'html': {
+				const className: string = docBadge.text.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+				writer.write(
+					`<span class="api-badge api-badge-${className}">${this.getTableEscapedText(docBadge.text)}</span>`,
+				);
+				break;
+			}
+			default:
+				writer.write('`');
+				writer.write(this.getCodeText(docBadge.text));
+				writer.write('`');
+		}
+	}
+
+	private _writeTable(docTable: DocTable, context: IMarkdownEmitterContext): void {
+		// Markdown table rows can have inconsistent cell counts.  Size the table based on the longest row.
+		let columnCount: number = docTable.header.cells.length;
+		for (const row of docTable.rows) {
+			if (row.cells.length > columnCount) {
+				columnCount = row.cells.length;
+			}
+		}
+
+		switch (this._tableStyle) {
+			case 'markdown': {
+				const headerCells: string[] | undefined = this._renderInlineCells(docTable.header, columnCount, context);
+				const rows: (string[] | undefined)[] = docTable.rows.map((row) =>
+					this._renderInlineCells(row, columnCount, context),
+				);
+				if (headerCells && rows.every((row) => row !== undefined)) {
+					this._writeMarkdownTable(headerCells, rows as string[][], context);
+				} else {
+					this._writeHtmlTable(docTable, columnCount, context);
+				}
+				break;
+			}
+			case 'shortcode':
+				this._writeShortcodeTable(docTable, columnCount, context);
+				break;
+			default:
+				this._writeHtmlTable(docTable, columnCount, context);
+		}
+	}
+
+	private _writeHtmlTable(docTable: DocTable, columnCount: number, context: IMarkdownEmitterContext): void {
+		const writer: IndentedWriter = context.writer;
+
+		// GitHub's markdown renderer chokes on tables that don't have a blank line above them,
+		// whereas VS Code's renderer is totally fine with it.
+		writer.ensureSkippedLine();
+
+		writer.write('<table>');
+		if (docTable.header) {
+			writer.write('<thead><tr>');
+			for (let i: number = 0; i < columnCount; ++i) {
+				writer.write('<th>');
+				writer.ensureNewLine();
+				writer.writeLine();
+				const cell: DocTableCell | undefined = docTable.header.cells[i];
+				if (cell) {
+					this.writeNode(cell.content, context, false);
+				}
+				writer.ensureNewLine();
+				writer.writeLine();
+				writer.write('</th>');
+			}
+			writer.write('</tr></thead>');
+		}
+		writer.writeLine();
+
+		writer.write('<tbody>');
+		for (const row of docTable.rows) {
+			writer.write('<tr>');
+			for (const cell of row.cells) {
+				writer.write('<td>');
+				writer.ensureNewLine();
+				writer.writeLine();
+				this.writeNode(cell.content, context, false);
+				writer.ensureNewLine();
+				writer.writeLine();
+				writer.write('</td>');
+			}
+			writer.write('</tr>');
+			writer.writeLine();
+		}
+		writer.write('</tbody>');
+		writer.write('</table>');
+		writer.writeLine();
+	}
+
+	private _writeMarkdownTable(headerCells: string[], rows: string[][], context: IMarkdownEmitterContext): void {
+		const writer: IndentedWriter = context.writer;
+		writer.ensureSkippedLine();
+
+		writer.writeLine(`| ${headerCells.join(' | ')} |`);
+		writer.writeLine(`|${headerCells.map(() => ' --- ').join('|')}|`);
+		for (const row of rows) {
+			writer.writeLine(`| ${row.join(' | ')} |`);
+		}
+
+		writer.writeLine();
+	}
+
+	private _writeShortcodeTable(docTable: DocTable, columnCount: number, context: IMarkdownEmitterContext): void {
+		const writer: IndentedWriter = context.writer;
+		const renderRow = (row: DocTableRow): string[] => {
+			const cells: string[] = [];
+			for (let i: number = 0; i < columnCount; ++i) {
+				const cell: DocTableCell | undefined = row.cells[i];
+				cells.push(cell ? this._renderCell(cell, context) : '');
+			}
+			return cells;
+		};
+
+		// Cells are written as plain, single-quoted or block scalars, none of which escape double quotes, so the ref
+		// shortcodes inside the cells still work.  Only non-printable characters would need a double-quoted scalar.
+		const data: string = yaml.dump(
+			{ headers: renderRow(docTable.header), rows: docTable.rows.map(renderRow) },
+			{ lineWidth: -1, quotingType: "'" },
+		);
+
+		writer.ensureSkippedLine();
+		writer.writeLine(`{{< ${this._tableShortcode} >}}`);
+		writer.write(data);
+		writer.ensureNewLine();
+		writer.writeLine(`{{< /${this._tableShortcode} >}}`);
+		writer.writeLine();
+	}
+
+	/**
+	 * Renders each cell of the row as a single line of Markdown for a pipe table.
+	 *
+	 * @returns the cells, or undefined if any cell contains block content that can't be written on one line
+	 */
+	private _renderInlineCells(
+		row: DocTableRow,
+		columnCount: number,
+		context: IMarkdownEmitterContext,
+	): string[] | undefined {
+		const cells: string[] = [];
+		for (let i: number = 0; i < columnCount; ++i) {
+			const cell: DocTableCell | undefined = row.cells[i];
+			const text: string = cell ? this._renderCell(cell, context) : '';
+			if (/[\r\n]/.test(text)) {
+				return undefined;
+			}
+			// Plain text is already escaped, but pipes in code spans also need a backslash inside a table
+			cells.push(text.replace(/(?<!\\)\|/g, '\\|'));
+		}
+		return cells;
+	}
+
+	private _renderCell(cell: DocTableCell, context: IMarkdownEmitterContext): string {
+		const cellContext: IMarkdownEmitterContext = {
+			...context,
+			writer: new IndentedWriter(),
+			writingBold: false,
+			writingItalic: false,
+		};
+		this.writeNode(cell.content, cellContext, false);
+		return cellContext.writer.toString().trim();
+	}
+
+	private _writeNoteBox(docNoteBox: DocNoteBox, context: IMarkdownEmitterContext): void {
+		const writer: IndentedWriter = context.writer;
+		const severity: string = this._noteBoxSeverities[docNoteBox.source] ?? this._noteBoxSeverities.custom;
+		writer.ensureNewLine();
+
+		if (this._noteBoxStyle === 'shortcode') {
+			const shortcode: string = Utilities.expandPlaceholders(this._noteBoxShortcode, { severity }).trim();
+			const shortcodeName: string = shortcode.split(/\s/, 1)[0];
+
+			// The content of a {{% %}} shortcode is rendered as Markdown, so it needs blank lines around it
+			writer.ensureSkippedLine();
+			writer.writeLine(`{{% ${shortcode} %}}`);
+			writer.writeLine();
+			this.writeNode(docNoteBox.content, context, false);
+			writer.ensureSkippedLine();
+			writer.writeLine(`{{% /${shortcodeName} %}}`);
+		} else {
+			writer.increaseIndent('> ');
+
+			if (this._noteBoxStyle === 'alert') {
+				writer.writeLine(`[!${severity.toUpperCase()}]`);
+			}
+
+			this.writeNode(docNoteBox.content, context, false);
+			writer.ensureNewLine();
+
+			writer.decreaseIndent();
+		}
+
+		writer.writeLine();
+	}
+
 	/** @override */
 	protected writeLinkTagWithCodeDestination(
 		docLinkTag: DocLinkTag,
@@ -174,21 +512,24 @@ export class HugoMarkdownEmitter extends MarkdownEmitter {
 		if (result.resolvedApiItem) {
 			const filename: string | undefined = options.onGetFilenameForApiItem(result.resolvedApiItem);
 
-			if (filename) {
-				let linkText: string = docLinkTag.linkText || '';
-				if (linkText.length === 0) {
-					// Generate a name such as Namespace1.Namespace2.MyClass.myMethod()
-					linkText = result.resolvedApiItem.getScopedNameWithinPackage();
-				}
-				if (linkText.length > 0) {
-					const encodedLinkText: string = this.getEscapedText(linkText.replace(/\s+/g, ' '));
+			let linkText: string = docLinkTag.linkText || '';
+			if (linkText.length === 0) {
+				// Generate a name such as Namespace1.Namespace2.MyClass.myMethod()
+				linkText = result.resolvedApiItem.getScopedNameWithinPackage();
+			}
+			if (linkText.length > 0) {
+				const encodedLinkText: string = this.getEscapedText(linkText.replace(/\s+/g, ' '));
 
+				// Items without a page, such as those excluded by their release tag, are written as plain text
+				if (filename) {
 					context.writer.write('[');
 					context.writer.write(encodedLinkText);
-					context.writer.write(`]({{< ref "${filename!}" >}})`);
+					context.writer.write(`](${this._getLinkDestination(filename, options)})`);
 				} else {
-					console.log(Colorize.yellow('WARNING: Unable to determine link text'));
+					context.writer.write(encodedLinkText);
 				}
+			} else {
+				console.log(Colorize.yellow('WARNING: Unable to determine link text'));
 			}
 		} else if (result.errorMessage) {
 			console.log(
@@ -200,7 +541,10 @@ export class HugoMarkdownEmitter extends MarkdownEmitter {
 	}
 
 	/** @override */
-	protected writeLinkTagWithUrlDestination(docLinkTag: DocLinkTag, context: IMarkdownEmitterContext): void {
+	protected writeLinkTagWithUrlDestination(
+		docLinkTag: DocLinkTag,
+		context: IMarkdownEmitterContext<ICustomMarkdownEmitterOptions>,
+	): void {
 		const linkText: string = docLinkTag.linkText !== undefined ? docLinkTag.linkText : docLinkTag.urlDestination!;
 
 		const encodedLinkText: string = this.getEscapedText(linkText.replace(/\s+/g, ' '));
@@ -210,7 +554,32 @@ export class HugoMarkdownEmitter extends MarkdownEmitter {
 		if (docLinkTag.urlDestination?.startsWith('https://') || docLinkTag.urlDestination?.startsWith('http://')) {
 			context.writer.write(`](${docLinkTag.urlDestination!})`);
 		} else {
-			context.writer.write(`]({{< ref "${docLinkTag.urlDestination!}" >}})`);
+			context.writer.write(`](${this._getLinkDestination(docLinkTag.urlDestination!, context.options)})`);
+		}
+	}
+
+	/**
+	 * Converts the content path of a page, such as "/docs/package/class/_index.md", into a link destination
+	 * that follows the configured link style.
+	 */
+	private _getLinkDestination(contentPath: string, options: ICustomMarkdownEmitterOptions): string {
+		switch (this._linkStyle) {
+			case 'relref':
+				return `{{< relref "${contentPath}" >}}`;
+			case 'relative': {
+				if (options.pageFilename === undefined) {
+					return contentPath;
+				}
+				const relativePath: string = path.posix.relative(path.posix.dirname(options.pageFilename), contentPath);
+				return relativePath.startsWith('.') ? relativePath : `./${relativePath}`;
+			}
+			case 'absolute': {
+				// Hugo serves "_index.md", "index.md" and "name.md" as a folder with the page's name
+				const pageUrl: string = contentPath.replace(/(^|\/)_?index\.md$/, '/').replace(/\.md$/, '/');
+				return `${this._siteUrl}${pageUrl}`;
+			}
+			default:
+				return `{{< ref "${contentPath}" >}}`;
 		}
 	}
 }
@@ -68,12 +68,22 @@ export class MarkdownEmitter {
 			.replace(/\\/g, '\\\\') // first replace the escape character
 			.replace(/[*#[\]_|`~]/g, (x) => `\\${x}`) // then escape any special characters
 			.replace(/---/g, '\\-\\-\\-') // hyphens only if it's 3 or more
+			.replace(/\{\{(?=[<%])/g, '\\{\\{') // shortcode delimiters, which Hugo would otherwise try to execute
 			.replace(/&/g, '&amp;')
 			.replace(/</g, '&lt;')
 			.replace(/>/g, '&gt;');
 		return textWithBackslashes;
 	}
 
+	/**
+	 * Returns the text of a code span or fenced code block, which can't use backslash escapes.
+	 *
+	 * @virtual
+	 */
+	protected getCodeText(code: string): string {
+		return code;
+	}
+
 	protected getTableEscapedText(text: string): string {
 		return text
 			.replace(/&/g, '&amp;')
@@ -105,7 +115,7 @@ export class MarkdownEmitter {
 			case DocNodeKind.CodeSpan: {
 				const docCodeSpan: DocCodeSpan = docNode as DocCodeSpan;
 				writer.write('`');
-				writer.write(docCodeSpan.code);
+				writer.write(this.getCodeText(docCodeSpan.code));
 				writer.write('`');
 				break;
 			}
@@ -135,7 +145,7 @@ export class MarkdownEmitter {
 				writer.write('```');
 				writer.write(docFencedCode.language);
 				writer.writeLine();
-				writer.write(docFencedCode.code);
+				writer.write(this.getCodeText(docFencedCode.code));
 				writer.ensureNewLine();
 				writer.writeLine('```');
 				break;
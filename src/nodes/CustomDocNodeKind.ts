@@ -2,6 +2,7 @@
 // See LICENSE in the project root for license information.
 
 import { DocNodeKind, TSDocConfiguration } from '@microsoft/tsdoc';
+import { DocBadge } from './DocBadge.js';
 import { DocEmphasisSpan } from './DocEmphasisSpan.js';
 import { DocHeading } from './DocHeading.js';
 import { DocNoteBox } from './DocNoteBox.js';
@@ -13,6 +14,7 @@ import { DocTableRow } from './DocTableRow.js';
  * Identifies custom subclasses of {@link DocNode}.
  */
 export const enum CustomDocNodeKind {
+	Badge = 'Badge',
 	EmphasisSpan = 'EmphasisSpan',
 	Heading = 'Heading',
 	NoteBox = 'NoteBox',
@@ -29,6 +31,7 @@ export class CustomDocNodes {
 			const configuration: TSDocConfiguration = new TSDocConfiguration();
 
 			configuration.docNodeManager.registerDocNodes('@micrososft/api-documenter', [
+				{ docNodeKind: CustomDocNodeKind.Badge, constructor: DocBadge },
 				{ docNodeKind: CustomDocNodeKind.EmphasisSpan, constructor: DocEmphasisSpan },
 				{ docNodeKind: CustomDocNodeKind.Heading, constructor: DocHeading },
 				{ docNodeKind: CustomDocNodeKind.NoteBox, constructor: DocNoteBox },
@@ -48,7 +51,10 @@ export class CustomDocNodes {
 				CustomDocNodeKind.Table,
 			]);
 
-			configuration.docNodeManager.registerAllowableChildren(DocNodeKind.Paragraph, [CustomDocNodeKind.EmphasisSpan]);
+			configuration.docNodeManager.registerAllowableChildren(DocNodeKind.Paragraph, [
+				CustomDocNodeKind.Badge,
+				CustomDocNodeKind.EmphasisSpan,
+			]);
 
 			CustomDocNodes._configuration = configuration;
 		}
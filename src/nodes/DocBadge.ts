@@ -0,0 +1,29 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import { DocNode, type IDocNodeParameters } from '@microsoft/tsdoc';
+import { CustomDocNodeKind } from './CustomDocNodeKind.js';
+
+/**
+ * Constructor parameters for {@link DocBadge}.
+ */
+export interface IDocBadgeParameters extends IDocNodeParameters {
+	text: string;
+}
+
+/**
+ * Represents a short label attached to an API item, such as a modifier like "static" or "sealed".
+ */
+export class DocBadge extends DocNode {
+	public readonly text: string;
+
+	public constructor(parameters: IDocBadgeParameters) {
+		super(parameters);
+		this.text = parameters.text;
+	}
+
+	/** @override */
+	public get kind(): string {
+		return CustomDocNodeKind.Badge;
+	}
+}
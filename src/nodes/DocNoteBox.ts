@@ -7,16 +7,24 @@ import { CustomDocNodeKind } from './CustomDocNodeKind.js';
 /**
  * Constructor parameters for {@link DocNoteBox}.
  */
-export interface IDocNoteBoxParameters extends IDocNodeParameters {}
+export interface IDocNoteBoxParameters extends IDocNodeParameters {
+	/**
+	 * What produced the note box, such as "deprecated", "alpha" or "beta".  Emitters can use this to choose
+	 * how prominently the box is displayed.  The default is "custom".
+	 */
+	source?: string;
+}
 
 /**
  * Represents a note box, which is typically displayed as a bordered box containing informational text.
  */
 export class DocNoteBox extends DocNode {
 	public readonly content: DocSection;
+	public readonly source: string;
 
 	public constructor(parameters: IDocNoteBoxParameters, sectionChildNodes?: ReadonlyArray<DocNode>) {
 		super(parameters);
+		this.source = parameters.source ?? 'custom';
 		this.content = new DocSection({ configuration: this.configuration }, sectionChildNodes);
 	}
 
@@ -0,0 +1,110 @@
+// Copyright (c) Microsoft Corporation. All rights reserved. Licensed under the MIT license.
+// See LICENSE in the project root for license information.
+
+import * as path from 'path';
+import { createTwoFilesPatch } from 'diff';
+import { FileSystem } from '@rushstack/node-core-library';
+import { Colorize } from '@rushstack/terminal';
+
+/**
+ * Used by the `--check` command-line parameter.  Documenters hand their output to this class instead of writing
+ * it, and it prints a unified diff for every file whose contents on disk differ.
+ */
+export class OutputChecker {
+	private readonly _outputFolder: string;
+	private readonly _outdatedFiles: string[] = [];
+
+	public constructor(outputFolder: string) {
+		this._outputFolder = outputFolder;
+	}
+
+	/**
+	 * The paths of all files that would have been changed, relative to the output folder.
+	 */
+	public get outdatedFiles(): ReadonlyArray<string> {
+		return this._outdatedFiles;
+	}
+
+	/**
+	 * Compares the content that would be written to `filename` with the existing file, if any.
+	 *
+	 * @returns true if the existing file is already up to date
+	 */
+	public checkFile(filename: string, content: string): boolean {
+		const oldContent: string | undefined = FileSystem.exists(filename) ? FileSystem.readFile(filename) : undefined;
+		if (oldContent === content) {
+			return true;
+		}
+
+		this._reportDifference(filename, oldContent, content);
+		return false;
+	}
+
+	/**
+	 * Records that an existing file would have been deleted.
+	 */
+	public checkDeletedFile(filename: string): void {
+		if (FileSystem.exists(filename)) {
+			this._reportDifference(filename, FileSystem.readFile(filename), undefined);
+		}
+	}
+
+	/**
+	 * Records every file in the output folder that is not in `expectedFilenames` as deleted.  This is for documenters
+	 * that empty the output folder before writing.
+	 */
+	public checkUnexpectedFiles(expectedFilenames: ReadonlySet<string>): void {
+		if (!FileSystem.exists(this._outputFolder)) {
+			return;
+		}
+
+		const expected: Set<string> = new Set([...expectedFilenames].map((x) => path.resolve(x)));
+		const visit = (folder: string): void => {
+			for (const item of FileSystem.readFolderItems(folder)) {
+				const itemPath: string = path.resolve(folder, item.name);
+				if (item.isDirectory()) {
+					visit(itemPath);
+				} else if (!expected.has(itemPath)) {
+					this.checkDeletedFile(itemPath);
+				}
+			}
+		};
+		visit(this._outputFolder);
+	}
+
+	private _reportDifference(filename: string, oldContent: string | undefined, newContent: string | undefined): void {
+		const relativePath: string = path.relative(this._outputFolder, filename).split(path.sep).join('/');
+		this._outdatedFiles.push(relativePath);
+
+		// Compare the text without carriage returns so that they don't appear in the diff
+		const oldText: string = (oldContent ?? '').replace(/\r\n/g, '\n');
+		const newText: string = (newContent ?? '').replace(/\r\n/g, '\n');
+		if (oldContent !== undefined && newContent !== undefined && oldText === newText) {
+			console.log(`${Colorize.bold(relativePath)}: line endings differ`);
+			return;
+		}
+
+		const patch: string = createTwoFilesPatch(
+			oldContent === undefined ? '/dev/null' : `a/${relativePath}`,
+			newContent === undefined ? '/dev/null' : `b/${relativePath}`,
+			oldText,
+			newText,
+		);
+
+		for (const line of patch.split('\n')) {
+			if (line.startsWith('===')) {
+				continue;
+			} else if (line.startsWith('+++') || line.startsWith('---')) {
+				console.log(Colorize.bold(line));
+			} else if (line.startsWith('+')) {
+				console.log(Colorize.green(line));
+			} else if (line.startsWith('-')) {
+				console.log(Colorize.red(line));
+			} else if (line.startsWith('@@')) {
+				console.log(Colorize.cyan(line));
+			} else if (line.length > 0) {
+				console.log(line);
+			}
+		}
+	}
+}
@@ -5,6 +5,8 @@ import { type ApiItem, ApiParameterListMixin } from '@microsoft/api-extractor-mo
 
 export class Utilities {
 	private static readonly _badFilenameCharsRegExp: RegExp = /[^a-z0-9_\-\.]/gi;
+	private static readonly _placeholderRegExp: RegExp = /\{(\w+)\}/g;
+	private static readonly _sentenceEndRegExp: RegExp = /[.!?](?=\s|$)/g;
 	/**
 	 * Generates a concise signature for a function.  Example: "getArea(width, height)"
 	 */
@@ -15,6 +17,44 @@ export class Utilities {
 		return apiItem.displayName;
 	}
 
+	/**
+	 * Replaces placeholders such as `{name}` in a template with the matching entry from `values`.
+	 * Placeholders that don't have a value are left as-is.
+	 */
+	public static expandPlaceholders(template: string, values: Readonly<Record<string, string>>): string {
+		return template.replace(Utilities._placeholderRegExp, (placeholder: string, name: string) =>
+			Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder,
+		);
+	}
+
+	/**
+	 * Shortens text to at most `maxLength` characters, preferring to cut at the end of a sentence.
+	 *
+	 * @remarks
+	 * If even the first sentence is too long, the text is cut at a word boundary and an ellipsis is appended.
+	 */
+	public static truncateAtSentence(text: string, maxLength: number): string {
+		if (text.length <= maxLength) {
+			return text;
+		}
+
+		let sentenceEnd: number = -1;
+		for (const match of text.matchAll(Utilities._sentenceEndRegExp)) {
+			const end: number = match.index! + 1;
+			if (end > maxLength) {
+				break;
+			}
+			sentenceEnd = end;
+		}
+		if (sentenceEnd > 0) {
+			return text.substring(0, sentenceEnd);
+		}
+
+		// Leave room for the ellipsis
+		const wordEnd: number = text.lastIndexOf(' ', maxLength - 1);
+		return `${text.substring(0, wordEnd > 0 ? wordEnd : maxLength - 1).trimEnd()}…`;
+	}
+
 	/**
 	 * Converts bad filename characters to underscores.
 	 */